@@ -4,7 +4,7 @@ import type { JWKInterface } from "warp-contracts";
 import { DeployPlugin } from "warp-contracts-plugin-deploy";
 import { RedisCache } from "warp-contracts-redis";
 import { checkArLocalRunning, validateWalletAddress } from "../utils/helper.js";
-import { initializeRedis } from "./redis.js";
+import { getRedis } from "./redis.js";
 
 /**
  * Configuration interface for Arweave blockchain connection.
@@ -36,7 +36,7 @@ export interface ArweaveConfig {
  *
  * **Environment Variables:**
  * - `NODE_ENV`: Determines network selection ('production' for mainnet, others for development)
- * - `REDIS_URL`: Optional Redis connection string for caching (handled by initializeRedis helper)
+ * - `REDIS_URL`: Optional Redis connection string for caching (handled by initializeRedis helper, shared via getRedis)
  * - `ARWEAVE_WALLET_PATH`: Path to wallet JSON file (required in production)
  * - `SERVICE_WALLET_ADDRESS`: Wallet address for production validation (required in production)
  *
@@ -63,7 +63,7 @@ export async function initializeArweave(): Promise<ArweaveConfig> {
 	const isProduction = process.env.NODE_ENV?.trim() === "production";
 
 	// Initialize Redis connection for both production and development
-	const redis = await initializeRedis();
+	const redis = await getRedis();
 
 	// Create Warp instance with appropriate network
 	let warp: Warp;
@@ -0,0 +1,105 @@
+/**
+ * Subscription plan catalog
+ *
+ * The single source of truth for what each plan costs and allows. Quotas of
+ * new and renewed subscriptions are derived from here, never from request
+ * bodies, and GET /plans publishes the catalog for the pricing page.
+ *
+ * Changing a plan's quota only affects subscriptions created or renewed
+ * afterwards; existing rows keep the quotaLimit they were issued with.
+ */
+
+export const PLAN_IDS = ["basic", "pro", "enterprise"] as const;
+
+export type PlanId = (typeof PLAN_IDS)[number];
+
+export type PlanFeature =
+	| "semantic-search"
+	| "keyword-search"
+	| "hybrid-search"
+	| "rerank"
+	| "async-insert"
+	| "export"
+	| "import"
+	| "priority-support"
+	| "dedicated-support";
+
+export interface PlanDefinition {
+	id: PlanId;
+	name: string;
+	description: string;
+	priceUsd: number; // Per billing period
+	priceWei: string; // Price in ETH as a wei amount (decimal string, exceeds Number precision)
+	quotaLimit: number; // Memory operations (inserts and searches) per billing period
+	maxMemoryChars: number; // Longest memory content accepted
+	rateLimit: {
+		requestsPerMinute: number; // Sustained request rate per API key
+		burst: number; // Requests allowed at once before the rate applies
+	};
+	features: PlanFeature[];
+}
+
+/** Length of a billing and quota period */
+export const PLAN_PERIOD_DAYS = 30;
+
+const BASIC_FEATURES: PlanFeature[] = ["semantic-search", "keyword-search"];
+
+const PRO_FEATURES: PlanFeature[] = [
+	...BASIC_FEATURES,
+	"hybrid-search",
+	"rerank",
+	"async-insert",
+	"export",
+	"import",
+	"priority-support",
+];
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+	basic: {
+		id: "basic",
+		name: "Basic",
+		description: "For personal agents and small projects",
+		priceUsd: 5,
+		priceWei: "2000000000000000", // 0.002 ETH
+		quotaLimit: 1000,
+		maxMemoryChars: 2000,
+		rateLimit: { requestsPerMinute: 60, burst: 20 },
+		features: BASIC_FEATURES,
+	},
+	pro: {
+		id: "pro",
+		name: "Pro",
+		description: "For professional developers and production agents",
+		priceUsd: 15,
+		priceWei: "6000000000000000", // 0.006 ETH
+		quotaLimit: 10000,
+		maxMemoryChars: 10000,
+		rateLimit: { requestsPerMinute: 300, burst: 60 },
+		features: PRO_FEATURES,
+	},
+	enterprise: {
+		id: "enterprise",
+		name: "Enterprise",
+		description: "For teams and large-scale memory workloads",
+		priceUsd: 50,
+		priceWei: "20000000000000000", // 0.02 ETH
+		quotaLimit: 100000,
+		maxMemoryChars: 10000,
+		rateLimit: { requestsPerMinute: 1200, burst: 200 },
+		features: [...PRO_FEATURES, "dedicated-support"],
+	},
+};
+
+/**
+ * Check whether a value names a plan in the catalog
+ */
+export function isPlanId(value: unknown): value is PlanId {
+	return typeof value === "string" && PLAN_IDS.includes(value as PlanId);
+}
+
+/**
+ * When a subscription period starting at `from` renews
+ */
+export function planPeriodEnd(from = new Date()): Date {
+	return new Date(from.getTime() + PLAN_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+}
@@ -62,3 +62,20 @@ export async function initializeRedis(): Promise<Redis | undefined> {
 		return redis;
 	}
 }
+
+let sharedRedis: Promise<Redis | undefined> | null = null;
+
+/**
+ * Get the process-wide Redis connection, connecting on first use
+ *
+ * Shared by the Warp contract cache (see initializeArweave) and the rate
+ * limiter, so the process holds a single connection.
+ *
+ * @returns Promise<Redis | undefined> - Redis instance, or undefined without REDIS_URL
+ */
+export function getRedis(): Promise<Redis | undefined> {
+	if (!sharedRedis) {
+		sharedRedis = initializeRedis();
+	}
+	return sharedRedis;
+}
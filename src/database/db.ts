@@ -4,11 +4,21 @@ import { config } from "dotenv";
 import * as schema1 from "./schemas/user.js";
 import * as schema2 from "./schemas/instances.js";
 import * as schema3 from "./schemas/subscriptions.js";
+import * as schema4 from "./schemas/contractStats.js";
+import * as schema5 from "./schemas/deployments.js";
+import * as schema6 from "./schemas/memoryIndex.js";
+import * as schema7 from "./schemas/importJobs.js";
+import * as schema8 from "./schemas/payments.js";
 
 const schema = {
     ...schema1,
     ...schema2,
     ...schema3,
+    ...schema4,
+    ...schema5,
+    ...schema6,
+    ...schema7,
+    ...schema8,
 }
 
 config({ path: ".env" }); // or .env.local
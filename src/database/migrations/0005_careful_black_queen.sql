@@ -0,0 +1,7 @@
+ALTER TABLE "api_keys" RENAME TO "instances";--> statement-breakpoint
+ALTER TABLE "instances" RENAME COLUMN "key_hash" TO "instance_key_hash";--> statement-breakpoint
+ALTER TABLE "instances" DROP CONSTRAINT "api_keys_user_id_unique";--> statement-breakpoint
+ALTER TABLE "instances" DROP CONSTRAINT "api_keys_key_hash_unique";--> statement-breakpoint
+ALTER TABLE "instances" DROP COLUMN "contract_tx_id";--> statement-breakpoint
+ALTER TABLE "instances" ADD CONSTRAINT "instances_user_id_unique" UNIQUE("user_id");--> statement-breakpoint
+DROP TYPE "public"."subscription_plans";
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "contract_stats" (
+	"contract_id" text PRIMARY KEY NOT NULL,
+	"node_count" integer DEFAULT 0 NOT NULL,
+	"deleted_count" integer DEFAULT 0 NOT NULL,
+	"metadata_bytes" integer DEFAULT 0 NOT NULL,
+	"last_insert_at" timestamp with time zone,
+	"reconciled_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
@@ -0,0 +1,13 @@
+CREATE TABLE "deployments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text,
+	"contract_tx_id" text,
+	"deployment_status" text DEFAULT 'pending' NOT NULL,
+	"block_height" integer,
+	"confirmations" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"confirmed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "deployments_contract_tx_id_unique" UNIQUE("contract_tx_id")
+);
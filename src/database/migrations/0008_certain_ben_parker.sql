@@ -0,0 +1,19 @@
+CREATE TABLE "memory_index_state" (
+	"contract_id" text PRIMARY KEY NOT NULL,
+	"next_node_id" integer DEFAULT 0 NOT NULL,
+	"synced_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "memory_index" (
+	"contract_id" text NOT NULL,
+	"memory_id" integer NOT NULL,
+	"node_id" integer NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"importance" integer DEFAULT 0 NOT NULL,
+	"metadata" jsonb,
+	"indexed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "memory_index_contract_id_memory_id_pk" PRIMARY KEY("contract_id","memory_id")
+);
+--> statement-breakpoint
+CREATE INDEX "memory_index_timestamp_idx" ON "memory_index" USING btree ("contract_id","timestamp","memory_id");--> statement-breakpoint
+CREATE INDEX "memory_index_importance_idx" ON "memory_index" USING btree ("contract_id","importance","memory_id");
\ No newline at end of file
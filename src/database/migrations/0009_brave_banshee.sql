@@ -0,0 +1,17 @@
+CREATE TABLE "import_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"contract_id" text NOT NULL,
+	"import_status" text DEFAULT 'pending' NOT NULL,
+	"payload" text NOT NULL,
+	"total_rows" integer NOT NULL,
+	"processed_rows" integer DEFAULT 0 NOT NULL,
+	"imported_rows" integer DEFAULT 0 NOT NULL,
+	"reembedded_rows" integer DEFAULT 0 NOT NULL,
+	"failed_rows" integer DEFAULT 0 NOT NULL,
+	"row_errors" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"error" text,
+	"heartbeat_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"finished_at" timestamp with time zone
+);
@@ -0,0 +1 @@
+ALTER TABLE "user_subscriptions" ADD CONSTRAINT "user_subscriptions_plan_check" CHECK ("user_subscriptions"."subscription_plans" IN ('basic', 'pro', 'enterprise'));
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chain_id" integer NOT NULL,
+	"tx_hash" text NOT NULL,
+	"clerk_user_id" text NOT NULL,
+	"plan" text NOT NULL,
+	"payment_status" text DEFAULT 'pending' NOT NULL,
+	"currency" text,
+	"amount" text,
+	"from_address" text,
+	"error" text,
+	"confirmed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "payments_chain_tx_hash_idx" ON "payments" USING btree ("chain_id","tx_hash");--> statement-breakpoint
+CREATE INDEX "payments_user_idx" ON "payments" USING btree ("clerk_user_id","created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "import_jobs" ADD COLUMN "clerk_user_id" text;
\ No newline at end of file
@@ -1,14 +1,15 @@
 import { db } from '../db.js';
 import { userSubscriptionTable } from '../schemas/subscriptions.js';
-import { eq } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 import type { InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import { PLAN_PERIOD_DAYS, type PlanId } from '../../config/plans.js';
 
-type UserSubscription = InferSelectModel<typeof userSubscriptionTable>;
+export type UserSubscription = InferSelectModel<typeof userSubscriptionTable>;
 type NewUserSubscription = InferInsertModel<typeof userSubscriptionTable>;
 
 export async function createUserSubscription(subscriptionData: {
     clerkUserId: string;
-    plan: "basic" | "pro" | "enterprise";
+    plan: PlanId;
     quotaLimit: number;
     quotaUsed?: number;
     isActive?: boolean;
@@ -51,3 +52,42 @@ export async function deleteUserSubscription(userId: string): Promise<void> {
     await db.delete(userSubscriptionTable)
         .where(eq(userSubscriptionTable.clerkUserId, userId));
 }
+
+/**
+ * Atomically consume `amount` of a user's quota
+ *
+ * A period whose renewsAt has passed is reset first, in the same statement,
+ * and renewsAt moves forward by whole plan periods into the future. Nothing is
+ * consumed when the subscription is inactive or the amount would exceed
+ * quotaLimit.
+ *
+ * @returns The updated subscription, or undefined if nothing was consumed
+ */
+export async function consumeQuota(
+    userId: string,
+    amount: number,
+): Promise<UserSubscription | undefined> {
+    const expired = sql`${userSubscriptionTable.renewsAt} <= now()`;
+    const used = sql`CASE WHEN ${expired} THEN ${amount} ELSE ${userSubscriptionTable.quotaUsed} + ${amount} END`;
+
+    const [subscription] = await db.update(userSubscriptionTable)
+        .set({
+            quotaUsed: used,
+            renewsAt: sql`CASE WHEN ${expired} THEN ${userSubscriptionTable.renewsAt} + make_interval(days => ${PLAN_PERIOD_DAYS} * (floor(extract(epoch from now() - ${userSubscriptionTable.renewsAt}) / ${PLAN_PERIOD_DAYS * 86400})::int + 1)) ELSE ${userSubscriptionTable.renewsAt} END`,
+        })
+        .where(and(
+            eq(userSubscriptionTable.clerkUserId, userId),
+            eq(userSubscriptionTable.isActive, true),
+            sql`${used} <= ${userSubscriptionTable.quotaLimit}`,
+        ))
+        .returning();
+
+    return subscription;
+}
+
+// Give back quota consumed by a request that failed
+export async function releaseQuota(userId: string, amount: number): Promise<void> {
+    await db.update(userSubscriptionTable)
+        .set({ quotaUsed: sql`GREATEST(${userSubscriptionTable.quotaUsed} - ${amount}, 0)` })
+        .where(eq(userSubscriptionTable.clerkUserId, userId));
+}
@@ -0,0 +1,116 @@
+import { db } from '../db.js';
+import { contractStatsTable } from '../schemas/contractStats.js';
+import { eq, sql } from 'drizzle-orm';
+import type { InferSelectModel } from 'drizzle-orm';
+
+export type ContractStats = InferSelectModel<typeof contractStatsTable>;
+
+export async function getContractStats(contractId: string): Promise<ContractStats | undefined> {
+    return await db.query.contractStatsTable.findFirst({
+        where: eq(contractStatsTable.contractId, contractId),
+    });
+}
+
+/**
+ * Atomically add inserted vectors to a contract's counters
+ *
+ * The counters are statistics only: vector IDs are read from contract
+ * state, since concurrent inserts and failed updates make them drift.
+ */
+export async function recordInserts(
+    contractId: string,
+    count: number,
+    metadataBytes: number,
+): Promise<ContractStats> {
+    const now = new Date();
+    const [stats] = await db.insert(contractStatsTable)
+        .values({
+            contractId,
+            nodeCount: count,
+            metadataBytes,
+            lastInsertAt: now,
+            updatedAt: now,
+        })
+        .onConflictDoUpdate({
+            target: contractStatsTable.contractId,
+            set: {
+                nodeCount: sql`${contractStatsTable.nodeCount} + ${count}`,
+                metadataBytes: sql`${contractStatsTable.metadataBytes} + ${metadataBytes}`,
+                lastInsertAt: now,
+                updatedAt: now,
+            },
+        })
+        .returning();
+
+    return stats;
+}
+
+// Atomically add tombstoned vectors to a contract's counters
+export async function recordDeletes(
+    contractId: string,
+    count: number,
+): Promise<ContractStats> {
+    const now = new Date();
+    const [stats] = await db.insert(contractStatsTable)
+        .values({
+            contractId,
+            deletedCount: count,
+            updatedAt: now,
+        })
+        .onConflictDoUpdate({
+            target: contractStatsTable.contractId,
+            set: {
+                deletedCount: sql`${contractStatsTable.deletedCount} + ${count}`,
+                updatedAt: now,
+            },
+        })
+        .returning();
+
+    return stats;
+}
+
+// Add metadata written outside of an insert (e.g. a metadata update)
+export async function recordMetadataBytes(
+    contractId: string,
+    metadataBytes: number,
+): Promise<void> {
+    await db.insert(contractStatsTable)
+        .values({
+            contractId,
+            metadataBytes,
+            updatedAt: new Date(),
+        })
+        .onConflictDoUpdate({
+            target: contractStatsTable.contractId,
+            set: {
+                metadataBytes: sql`${contractStatsTable.metadataBytes} + ${metadataBytes}`,
+                updatedAt: new Date(),
+            },
+        });
+}
+
+// Overwrite a contract's counters with values rebuilt from contract state
+export async function replaceContractStats(
+    contractId: string,
+    counts: Pick<ContractStats, 'nodeCount' | 'deletedCount'>,
+): Promise<ContractStats> {
+    const now = new Date();
+    const [stats] = await db.insert(contractStatsTable)
+        .values({
+            contractId,
+            ...counts,
+            reconciledAt: now,
+            updatedAt: now,
+        })
+        .onConflictDoUpdate({
+            target: contractStatsTable.contractId,
+            set: {
+                ...counts,
+                reconciledAt: now,
+                updatedAt: now,
+            },
+        })
+        .returning();
+
+    return stats;
+}
@@ -0,0 +1,43 @@
+import { db } from '../db.js';
+import { deploymentsTable } from '../schemas/deployments.js';
+import { eq } from 'drizzle-orm';
+import type { InferSelectModel, InferInsertModel } from 'drizzle-orm';
+
+export type Deployment = InferSelectModel<typeof deploymentsTable>;
+type NewDeployment = InferInsertModel<typeof deploymentsTable>;
+
+export type DeploymentStatus = Deployment['status'];
+
+export async function createDeployment(
+    userId?: string,
+): Promise<Deployment> {
+    const [deployment] = await db.insert(deploymentsTable).values({
+        userId,
+        status: 'pending',
+    }).returning();
+
+    return deployment;
+}
+
+export async function getDeploymentByContractId(
+    contractTxId: string,
+): Promise<Deployment | undefined> {
+    return await db.query.deploymentsTable.findFirst({
+        where: eq(deploymentsTable.contractTxId, contractTxId),
+    });
+}
+
+export async function updateDeployment(
+    id: string,
+    updates: Partial<Pick<NewDeployment, 'contractTxId' | 'status' | 'blockHeight' | 'confirmations' | 'error' | 'confirmedAt'>>,
+): Promise<Deployment | undefined> {
+    const [deployment] = await db.update(deploymentsTable)
+        .set({
+            ...updates,
+            updatedAt: new Date(),
+        })
+        .where(eq(deploymentsTable.id, id))
+        .returning();
+
+    return deployment;
+}
@@ -0,0 +1,135 @@
+import { db } from '../db.js';
+import { importJobsTable } from '../schemas/importJobs.js';
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import type { InferSelectModel } from 'drizzle-orm';
+
+export type ImportJob = InferSelectModel<typeof importJobsTable>;
+export type ImportJobStatus = ImportJob['status'];
+
+const MAX_ROW_ERRORS = 100; // Row errors kept per job
+
+export async function createImportJob(
+    contractId: string,
+    payload: string,
+    totalRows: number,
+    clerkUserId?: string,
+): Promise<ImportJob> {
+    const [job] = await db.insert(importJobsTable).values({
+        contractId,
+        clerkUserId,
+        payload,
+        totalRows,
+    }).returning();
+
+    return job;
+}
+
+export async function getImportJob(id: string): Promise<ImportJob | undefined> {
+    return await db.query.importJobsTable.findFirst({
+        where: eq(importJobsTable.id, id),
+    });
+}
+
+/**
+ * Atomically take over a job for processing
+ *
+ * Succeeds for pending jobs and for running jobs whose worker stopped
+ * reporting progress before `staleBefore` (e.g. the process was restarted).
+ * Returns undefined when another worker holds the job or it already finished.
+ */
+export async function claimImportJob(
+    id: string,
+    staleBefore: Date,
+): Promise<ImportJob | undefined> {
+    const now = new Date();
+    const [job] = await db.update(importJobsTable)
+        .set({ status: 'running', heartbeatAt: now, updatedAt: now })
+        .where(and(
+            eq(importJobsTable.id, id),
+            or(
+                eq(importJobsTable.status, 'pending'),
+                and(
+                    eq(importJobsTable.status, 'running'),
+                    or(isNull(importJobsTable.heartbeatAt), lt(importJobsTable.heartbeatAt, staleBefore)),
+                ),
+            ),
+        ))
+        .returning();
+
+    return job;
+}
+
+// IDs of jobs that are waiting, or were left running by a worker that stopped before `staleBefore`
+export async function listResumableImportJobs(staleBefore: Date): Promise<string[]> {
+    const jobs = await db.select({ id: importJobsTable.id })
+        .from(importJobsTable)
+        .where(or(
+            eq(importJobsTable.status, 'pending'),
+            and(
+                eq(importJobsTable.status, 'running'),
+                or(isNull(importJobsTable.heartbeatAt), lt(importJobsTable.heartbeatAt, staleBefore)),
+            ),
+        ));
+
+    return jobs.map((job) => job.id);
+}
+
+// Add a processed batch to a job's counters and refresh its heartbeat
+export async function recordImportProgress(
+    id: string,
+    progress: {
+        processedRows: number;
+        importedRows: number;
+        reembeddedRows: number;
+        failedRows: number;
+        rowErrors: { line: number; error: string }[];
+    },
+): Promise<void> {
+    const now = new Date();
+    const rowErrors = JSON.stringify(progress.rowErrors);
+
+    await db.update(importJobsTable)
+        .set({
+            processedRows: sql`${importJobsTable.processedRows} + ${progress.processedRows}`,
+            importedRows: sql`${importJobsTable.importedRows} + ${progress.importedRows}`,
+            reembeddedRows: sql`${importJobsTable.reembeddedRows} + ${progress.reembeddedRows}`,
+            failedRows: sql`${importJobsTable.failedRows} + ${progress.failedRows}`,
+            rowErrors: sql`(
+                SELECT COALESCE(jsonb_agg(kept.e), '[]'::jsonb) FROM (
+                    SELECT t.e FROM jsonb_array_elements(${importJobsTable.rowErrors} || ${rowErrors}::jsonb) AS t(e)
+                    LIMIT ${MAX_ROW_ERRORS}
+                ) AS kept
+            )`,
+            heartbeatAt: now,
+            updatedAt: now,
+        })
+        .where(eq(importJobsTable.id, id));
+}
+
+export async function finishImportJob(
+    id: string,
+    status: Extract<ImportJobStatus, 'completed' | 'failed'>,
+    error?: string,
+): Promise<void> {
+    const now = new Date();
+    await db.update(importJobsTable)
+        .set({ status, error: error ?? null, finishedAt: now, updatedAt: now })
+        .where(eq(importJobsTable.id, id));
+}
+
+// Put failed jobs back in the queue; they continue from their processed rows
+export async function requeueImportJob(id: string): Promise<ImportJob | undefined> {
+    const [job] = await db.update(importJobsTable)
+        .set({ status: 'pending', error: null, finishedAt: null, updatedAt: new Date() })
+        .where(and(eq(importJobsTable.id, id), eq(importJobsTable.status, 'failed')))
+        .returning();
+
+    return job;
+}
+
+// Hand a running job back to the queue, e.g. on shutdown
+export async function releaseImportJob(id: string): Promise<void> {
+    await db.update(importJobsTable)
+        .set({ status: 'pending', updatedAt: new Date() })
+        .where(and(eq(importJobsTable.id, id), eq(importJobsTable.status, 'running')));
+}
@@ -0,0 +1,128 @@
+import { db } from '../db.js';
+import { memoryIndexTable, memoryIndexStateTable } from '../schemas/memoryIndex.js';
+import { and, asc, desc, eq, gt, inArray, lt, or, sql } from 'drizzle-orm';
+import type { InferSelectModel, InferInsertModel, SQL } from 'drizzle-orm';
+
+export type MemoryIndexEntry = InferSelectModel<typeof memoryIndexTable>;
+export type NewMemoryIndexEntry = InferInsertModel<typeof memoryIndexTable>;
+
+export type MemoryListSort = 'id' | 'timestamp' | 'importance';
+export type MemoryListOrder = 'asc' | 'desc';
+
+// Position after which a page starts: the last entry's sort value and memory ID
+export interface MemoryListPosition {
+    value: number | string; // Memory ID, importance, or ISO timestamp
+    memoryId: number;
+}
+
+const NODE_ID_BATCH = 500; // Node IDs per delete statement
+
+export async function getIndexedNodeCount(contractId: string): Promise<number> {
+    const state = await db.query.memoryIndexStateTable.findFirst({
+        where: eq(memoryIndexStateTable.contractId, contractId),
+    });
+    return state?.nextNodeId ?? 0;
+}
+
+export async function setIndexedNodeCount(
+    contractId: string,
+    nextNodeId: number,
+): Promise<void> {
+    const now = new Date();
+    await db.insert(memoryIndexStateTable)
+        .values({ contractId, nextNodeId, syncedAt: now })
+        .onConflictDoUpdate({
+            target: memoryIndexStateTable.contractId,
+            set: { nextNodeId, syncedAt: now },
+        });
+}
+
+// Insert entries, replacing existing entries of the same memories
+export async function upsertMemoryIndexEntries(
+    entries: NewMemoryIndexEntry[],
+): Promise<void> {
+    if (entries.length === 0) {
+        return;
+    }
+
+    await db.insert(memoryIndexTable)
+        .values(entries)
+        .onConflictDoUpdate({
+            target: [memoryIndexTable.contractId, memoryIndexTable.memoryId],
+            set: {
+                nodeId: sql`excluded.node_id`,
+                timestamp: sql`excluded.timestamp`,
+                importance: sql`excluded.importance`,
+                metadata: sql`excluded.metadata`,
+                indexedAt: new Date(),
+            },
+        });
+}
+
+export async function deleteMemoryIndexEntry(
+    contractId: string,
+    memoryId: number,
+): Promise<void> {
+    await db.delete(memoryIndexTable)
+        .where(and(
+            eq(memoryIndexTable.contractId, contractId),
+            eq(memoryIndexTable.memoryId, memoryId),
+        ));
+}
+
+// Remove entries whose graph node was tombstoned
+export async function deleteMemoryIndexNodes(
+    contractId: string,
+    nodeIds: number[],
+): Promise<void> {
+    for (let start = 0; start < nodeIds.length; start += NODE_ID_BATCH) {
+        await db.delete(memoryIndexTable)
+            .where(and(
+                eq(memoryIndexTable.contractId, contractId),
+                inArray(memoryIndexTable.nodeId, nodeIds.slice(start, start + NODE_ID_BATCH)),
+            ));
+    }
+}
+
+/**
+ * Read one page of a contract's index entries with keyset pagination
+ *
+ * Entries are ordered by the sort column, ties broken by memory ID in the
+ * same direction, and start strictly after `after` when given.
+ */
+export async function listMemoryIndexEntries(
+    contractId: string,
+    options: {
+        sort: MemoryListSort;
+        order: MemoryListOrder;
+        limit: number;
+        after?: MemoryListPosition;
+    },
+): Promise<MemoryIndexEntry[]> {
+    const column = {
+        id: memoryIndexTable.memoryId,
+        timestamp: memoryIndexTable.timestamp,
+        importance: memoryIndexTable.importance,
+    }[options.sort];
+    const direction = options.order === 'asc' ? asc : desc;
+    const beyond = options.order === 'asc' ? gt : lt;
+
+    let position: SQL | undefined;
+    if (options.after && options.sort === 'id') {
+        position = beyond(memoryIndexTable.memoryId, options.after.memoryId);
+    } else if (options.after) {
+        const value = options.sort === 'timestamp'
+            ? new Date(options.after.value)
+            : Number(options.after.value);
+        position = or(
+            beyond(column, value),
+            and(eq(column, value), beyond(memoryIndexTable.memoryId, options.after.memoryId)),
+        );
+    }
+
+    return await db.select()
+        .from(memoryIndexTable)
+        .where(and(eq(memoryIndexTable.contractId, contractId), position))
+        .orderBy(direction(column), direction(memoryIndexTable.memoryId))
+        .limit(options.limit);
+}
@@ -0,0 +1,94 @@
+import { db } from '../db.js';
+import { paymentsTable } from '../schemas/payments.js';
+import { and, desc, eq, lt, or, sql } from 'drizzle-orm';
+import type { InferSelectModel } from 'drizzle-orm';
+import type { PlanId } from '../../config/plans.js';
+
+export type Payment = InferSelectModel<typeof paymentsTable>;
+export type PaymentStatus = Payment['status'];
+
+/**
+ * Atomically reserve a transaction hash for a user's payment
+ *
+ * Succeeds for hashes never seen before, for hashes whose earlier payment was
+ * rejected (e.g. the transaction was not mined yet), and for pending payments
+ * abandoned before `staleBefore`. Returns undefined when the hash is being
+ * redeemed or has already been redeemed.
+ */
+export async function claimPayment(
+    payment: {
+        chainId: number;
+        txHash: string;
+        clerkUserId: string;
+        plan: PlanId;
+    },
+    staleBefore: Date,
+): Promise<Payment | undefined> {
+    const now = new Date();
+    const [claimed] = await db.insert(paymentsTable)
+        .values({ ...payment, status: 'pending', updatedAt: now })
+        .onConflictDoUpdate({
+            target: [paymentsTable.chainId, paymentsTable.txHash],
+            set: {
+                clerkUserId: sql`excluded.clerk_user_id`,
+                plan: sql`excluded.plan`,
+                status: 'pending',
+                error: null,
+                updatedAt: now,
+            },
+            setWhere: or(
+                eq(paymentsTable.status, 'rejected'),
+                and(eq(paymentsTable.status, 'pending'), lt(paymentsTable.updatedAt, staleBefore)),
+            ),
+        })
+        .returning();
+
+    return claimed;
+}
+
+export async function getPaymentByTxHash(
+    chainId: number,
+    txHash: string,
+): Promise<Payment | undefined> {
+    return await db.query.paymentsTable.findFirst({
+        where: and(eq(paymentsTable.chainId, chainId), eq(paymentsTable.txHash, txHash)),
+    });
+}
+
+// Confirm a payment still pending under the claim made at claimedAt (its updatedAt)
+export async function confirmPayment(
+    id: string,
+    claimedAt: Date,
+    details: Pick<Payment, 'currency' | 'amount' | 'fromAddress'>,
+): Promise<Payment | undefined> {
+    const now = new Date();
+    const [payment] = await db.update(paymentsTable)
+        .set({ ...details, status: 'confirmed', confirmedAt: now, updatedAt: now })
+        .where(and(
+            eq(paymentsTable.id, id),
+            eq(paymentsTable.status, 'pending'),
+            eq(paymentsTable.updatedAt, claimedAt),
+        ))
+        .returning();
+
+    return payment;
+}
+
+// Release a claimed hash; rejected payments can be claimed again
+export async function rejectPayment(id: string, error: string): Promise<void> {
+    await db.update(paymentsTable)
+        .set({ status: 'rejected', error, updatedAt: new Date() })
+        .where(eq(paymentsTable.id, id));
+}
+
+// A user's payments, newest first
+export async function listPaymentsByUser(
+    clerkUserId: string,
+    limit = 100,
+): Promise<Payment[]> {
+    return await db.select()
+        .from(paymentsTable)
+        .where(eq(paymentsTable.clerkUserId, clerkUserId))
+        .orderBy(desc(paymentsTable.createdAt))
+        .limit(limit);
+}
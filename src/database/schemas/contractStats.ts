@@ -0,0 +1,12 @@
+import { pgTable, text, timestamp, integer } from 'drizzle-orm/pg-core';
+
+// Per-contract vector counters, kept in sync by EizenService on every write
+export const contractStatsTable = pgTable('contract_stats', {
+    contractId: text('contract_id').primaryKey(), // Arweave contract ID
+    nodeCount: integer('node_count').notNull().default(0), // HNSW graph nodes, including tombstoned ones (== next vector ID)
+    deletedCount: integer('deleted_count').notNull().default(0), // Tombstoned graph nodes
+    metadataBytes: integer('metadata_bytes').notNull().default(0), // Serialized metadata written to the contract
+    lastInsertAt: timestamp('last_insert_at', { withTimezone: true }),
+    reconciledAt: timestamp('reconciled_at', { withTimezone: true }), // Last time the counters were rebuilt from contract state
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
@@ -0,0 +1,15 @@
+import { pgTable, uuid, text, timestamp, integer } from 'drizzle-orm/pg-core';
+
+// One row per EizenService.deployNewContract() call
+export const deploymentsTable = pgTable('deployments', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: text('user_id'), // Clerk user ID, null for admin deployments
+    contractTxId: text('contract_tx_id').unique(), // Null until Warp accepted the deployment
+    status: text('deployment_status', { enum: ['pending', 'bundled', 'confirmed', 'failed'] }).notNull().default('pending'),
+    blockHeight: integer('block_height'),
+    confirmations: integer('confirmations').notNull().default(0),
+    error: text('error'), // Failure reason for failed deployments
+    confirmedAt: timestamp('confirmed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
@@ -0,0 +1,21 @@
+import { pgTable, uuid, text, timestamp, integer, jsonb } from 'drizzle-orm/pg-core';
+
+// One row per POST /memories/import upload, processed in the background by ImportService
+export const importJobsTable = pgTable('import_jobs', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    contractId: text('contract_id').notNull(), // Contract the memories are imported into
+    clerkUserId: text('clerk_user_id'), // User charged one quota unit per row; failed rows are given back
+    status: text('import_status', { enum: ['pending', 'running', 'completed', 'failed'] }).notNull().default('pending'),
+    payload: text('payload').notNull(), // Uploaded NDJSON, kept so an interrupted import can resume
+    totalRows: integer('total_rows').notNull(),
+    processedRows: integer('processed_rows').notNull().default(0), // Rows handled so far; an import resumes from here
+    importedRows: integer('imported_rows').notNull().default(0),
+    reembeddedRows: integer('reembedded_rows').notNull().default(0), // Imported rows whose vector was recomputed
+    failedRows: integer('failed_rows').notNull().default(0),
+    rowErrors: jsonb('row_errors').$type<{ line: number; error: string }[]>().notNull().default([]), // First errors, by NDJSON line number
+    error: text('error'), // Why the job as a whole failed
+    heartbeatAt: timestamp('heartbeat_at', { withTimezone: true }), // Last progress of the worker running the job
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+    finishedAt: timestamp('finished_at', { withTimezone: true }),
+});
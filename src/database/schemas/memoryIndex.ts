@@ -0,0 +1,23 @@
+import { pgTable, text, timestamp, integer, jsonb, primaryKey, index } from 'drizzle-orm/pg-core';
+
+// Listing index over each contract's memories, derived from contract state (see MemoryService.listMemories)
+export const memoryIndexTable = pgTable('memory_index', {
+    contractId: text('contract_id').notNull(), // Arweave contract ID
+    memoryId: integer('memory_id').notNull(), // Stable vector ID
+    nodeId: integer('node_id').notNull(), // Graph node currently holding the memory
+    timestamp: timestamp('timestamp', { withTimezone: true }).notNull(), // Metadata timestamp, else last update, else when indexed
+    importance: integer('importance').notNull().default(0), // 0 when the memory has none
+    metadata: jsonb('metadata'),
+    indexedAt: timestamp('indexed_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    primaryKey({ columns: [table.contractId, table.memoryId] }),
+    index('memory_index_timestamp_idx').on(table.contractId, table.timestamp, table.memoryId),
+    index('memory_index_importance_idx').on(table.contractId, table.importance, table.memoryId),
+]);
+
+// How far each contract's graph has been copied into memory_index
+export const memoryIndexStateTable = pgTable('memory_index_state', {
+    contractId: text('contract_id').primaryKey(),
+    nextNodeId: integer('next_node_id').notNull().default(0), // First graph node not yet indexed
+    syncedAt: timestamp('synced_at', { withTimezone: true }).notNull().defaultNow(),
+});
@@ -0,0 +1,22 @@
+import { pgTable, uuid, text, timestamp, integer, uniqueIndex, index } from 'drizzle-orm/pg-core';
+import { PLAN_IDS } from '../../config/plans.js';
+
+// One row per payment transaction redeemed for a subscription; a transaction can only be redeemed once
+export const paymentsTable = pgTable('payments', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    chainId: integer('chain_id').notNull(), // EVM chain ID
+    txHash: text('tx_hash').notNull(), // Lowercase transaction hash
+    clerkUserId: text('clerk_user_id').notNull(),
+    plan: text('plan', { enum: PLAN_IDS }).notNull(),
+    status: text('payment_status', { enum: ['pending', 'confirmed', 'rejected'] }).notNull().default('pending'),
+    currency: text('currency', { enum: ['ETH', 'ERC20'] }), // Null until confirmed
+    amount: text('amount'), // Base units (wei or token units) as a decimal string, null until confirmed
+    fromAddress: text('from_address'), // Paying wallet, null until confirmed
+    error: text('error'), // Rejection reason
+    confirmedAt: timestamp('confirmed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+    uniqueIndex('payments_chain_tx_hash_idx').on(table.chainId, table.txHash),
+    index('payments_user_idx').on(table.clerkUserId, table.createdAt),
+]);
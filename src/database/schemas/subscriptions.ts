@@ -1,17 +1,21 @@
-import { integer, pgTable, uuid, text, timestamp, boolean } from "drizzle-orm/pg-core";
+import { integer, pgTable, uuid, text, timestamp, boolean, check } from "drizzle-orm/pg-core";
 import { userTable } from "./user.js";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import { PLAN_IDS } from "../../config/plans.js";
 
 export const userSubscriptionTable = pgTable("user_subscriptions", {
     id: uuid("id").primaryKey().defaultRandom(),
     clerkUserId: text("clerk_user_id").notNull(),
-    plan: text("subscription_plans", { enum: ['basic', 'pro', 'enterprise'] }).notNull(),
+    plan: text("subscription_plans", { enum: PLAN_IDS }).notNull(),
     quotaLimit: integer("quota_limit").notNull(),
     quotaUsed: integer("quota_used").notNull().default(0),
     isActive: boolean("is_active").notNull().default(true),
     renewsAt: timestamp("renews_at", { withTimezone: true }).notNull(),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
-});
+}, (table) => [
+    // Text enums are not enforced by Postgres; keep stored plans within the plan catalog
+    check("user_subscriptions_plan_check", sql`${table.plan} IN (${sql.raw(PLAN_IDS.map((id) => `'${id}'`).join(", "))})`),
+]);
 
 export const userSubscriptionRelations = relations(userSubscriptionTable, ({ one }) => ({
     user: one(userTable, {
@@ -0,0 +1,51 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { errorResponse } from "../utils/responses.js";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Middleware restricting a route to operators holding the admin API key
+ *
+ * Requests must send ADMIN_API_KEY in the `X-Admin-Key` header. Without
+ * ADMIN_API_KEY configured every request is rejected, so admin routes are
+ * closed by default.
+ *
+ * @example
+ * ```typescript
+ * router.delete("/vector/:id", requireAdmin, async (req, res) => { ... });
+ * ```
+ */
+export function requireAdmin(
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): void {
+	const adminKey = process.env.ADMIN_API_KEY;
+	if (!adminKey) {
+		res
+			.status(403)
+			.json(
+				errorResponse(
+					"Admin access disabled",
+					"ADMIN_API_KEY is not configured on this server",
+				),
+			);
+		return;
+	}
+
+	const provided = req.headers["x-admin-key"];
+	if (
+		typeof provided !== "string" ||
+		!timingSafeEqual(digest(provided), digest(adminKey)) // Hashed to equal lengths
+	) {
+		res
+			.status(401)
+			.json(
+				errorResponse("Unauthorized", "A valid X-Admin-Key header is required"),
+			);
+		return;
+	}
+
+	next();
+}
@@ -33,13 +33,25 @@ export const verifyContractHashMiddleware = async (
 
     const hash = crypto.createHash('sha256').update(token).digest('hex');
 
-    const isValid = await findHashedKeyInDb(hash);
+    const instance = await findHashedKeyInDb(hash);
 
-    if (!isValid) {
+    if (!instance) {
       res.status(403).json({ error: 'Unknown or expired contract token' });
       return;
     }
 
+    // The stored instance must belong to the user the token was issued for
+    if (instance.userId !== payload.userId) {
+      res.status(403).json({ error: 'Contract token does not match instance owner' });
+      return;
+    }
+
+    // Instances are activated once their Arweave contract is deployed, and can be deactivated later
+    if (!instance.isActive) {
+      res.status(403).json({ error: 'Instance is not active' });
+      return;
+    }
+
     const headerContractId = req.headers['x-contract-id'];
 
     if (headerContractId && payload.contractId !== headerContractId) {
@@ -0,0 +1,26 @@
+import {
+	consumeQuota,
+	getUserSubscription,
+	releaseQuota,
+} from "../database/models/UserSubscription.js";
+import { createQuotaEnforcer } from "../utils/quota.js";
+
+export { refundQuota } from "../utils/quota.js";
+
+/**
+ * Middleware charging memory operations against the caller's subscription quota
+ *
+ * Quota is kept in the user_subscriptions table, see utils/quota.ts.
+ *
+ * Place after validateData so the cost can be computed from a valid body.
+ *
+ * @example
+ * ```typescript
+ * router.post("/batch", validateData(schema), enforceQuota((req) => req.body.memories.length), handler);
+ * ```
+ */
+export const enforceQuota = createQuotaEnforcer({
+	consume: consumeQuota,
+	release: releaseQuota,
+	getSubscription: getUserSubscription,
+});
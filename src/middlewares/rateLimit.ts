@@ -0,0 +1,62 @@
+import type { PlanId } from "../config/plans.js";
+import { getRedis } from "../config/redis.js";
+import { getUserSubscription } from "../database/models/UserSubscription.js";
+import {
+	MemoryRateLimitStore,
+	type RateLimitStore,
+	RedisRateLimitStore,
+	createRateLimiter,
+} from "../utils/rateLimiter.js";
+
+// How long a user's plan is trusted before it is looked up again
+const PLAN_CACHE_TTL_MS = 60 * 1000;
+const PLAN_CACHE_MAX_SIZE = 10_000; // Users whose plan is cached at once
+
+// Plans by user in lookup order, so the first to expire come first
+const planCache = new Map<string, { plan: PlanId | null; expiresAt: number }>();
+
+let store: Promise<RateLimitStore> | null = null;
+
+/**
+ * Rate limiting middleware for a route group, see utils/rateLimiter.ts
+ *
+ * Buckets live in Redis when REDIS_URL is configured, otherwise in process
+ * memory. Plan-based limits follow the caller's active subscription.
+ *
+ * @example
+ * ```typescript
+ * app.use("/memories", verifyContractHashMiddleware, rateLimit("memories"), memoryRoutes);
+ * ```
+ */
+export const rateLimit = createRateLimiter({
+	store: () => {
+		if (!store) {
+			store = getRedis().then((redis) =>
+				redis ? new RedisRateLimitStore(redis) : new MemoryRateLimitStore(),
+			);
+		}
+		return store;
+	},
+	getPlan: async (userId) => {
+		const cached = planCache.get(userId);
+		if (cached && cached.expiresAt > Date.now()) {
+			return cached.plan;
+		}
+
+		const subscription = await getUserSubscription(userId);
+		const plan = subscription?.isActive ? subscription.plan : null;
+
+		// Drop expired entries, which sit at the front, then the oldest beyond the cap
+		const now = Date.now();
+		planCache.delete(userId);
+		for (const [key, entry] of planCache) {
+			if (entry.expiresAt > now && planCache.size < PLAN_CACHE_MAX_SIZE) {
+				break;
+			}
+			planCache.delete(key);
+		}
+
+		planCache.set(userId, { plan, expiresAt: now + PLAN_CACHE_TTL_MS });
+		return plan;
+	},
+});
@@ -1,11 +1,19 @@
 import { type Request, type Response, Router } from "express";
+import { requireAdmin } from "../middlewares/admin.js";
 import { validateData } from "../middlewares/validate.js";
 import {
 	adminInsertVectorSchema,
+	adminReconcileSchema,
 	adminSearchVectorSchema,
 } from "../schemas/eizen.js";
 import { EizenService } from "../services/EizenService.js";
-import { errorResponse, successResponse } from "../utils/responses.js";
+import { MemoryService } from "../services/MemoryService.js";
+import { streamNdjson } from "../utils/ndjson.js";
+import {
+	errorResponse,
+	successResponse,
+	validationErrorResponse,
+} from "../utils/responses.js";
 
 /**
  * ADMIN ROUTES - ArchiveNET Vector Database Administration
@@ -220,6 +228,79 @@ router.get(
 	},
 );
 
+/**
+ * DELETE /admin/vector/:id
+ * Delete (tombstone) a specific vector by its ID
+ *
+ * Admin Use Case: Remove bad or test data without redeploying the contract
+ *
+ * Requires the admin API key in the `X-Admin-Key` header (see requireAdmin).
+ *
+ * URL Parameters:
+ * - id: Vector ID (integer)
+ *
+ * Query Parameters:
+ * - contractId: Optional contract ID (fallback to env variable)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "success": true,
+ *     "vectorId": 123,
+ *     "deletedAt": "2025-06-15T10:30:00Z",
+ *     "message": "Vector 123 deleted successfully"
+ *   },
+ *   "message": "Vector deleted successfully"
+ * }
+ */
+router.delete(
+	"/vector/:id",
+	requireAdmin,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const contractId = req.query.contractId as string;
+			const eizenService = await getAdminEizenService(contractId);
+			const vectorId = Number.parseInt(String(req.params.id), 10);
+
+			if (Number.isNaN(vectorId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid vector ID", "Vector ID must be a number"),
+					);
+				return;
+			}
+
+			const result = await eizenService.deleteVector(vectorId);
+
+			if (!result) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Vector not found",
+							`No vector found with ID: ${vectorId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(successResponse(result, "Vector deleted successfully"));
+		} catch (error) {
+			console.error("Admin vector delete error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to delete vector",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
 /**
  * GET /admin/
  * Get Admin database statistics and system information
@@ -234,9 +315,11 @@ router.get(
  *   "success": true,
  *   "data": {
  *     "totalVectors": 1234,
+ *     "deletedVectors": 12,
+ *     "lastInsertAt": "2025-06-15T10:30:00Z",
+ *     "storageBytes": 482113,
  *     "isInitialized": true,
- *     "memoryUsage": "45.2MB",
- *     "lastUpdated": "2025-06-15T10:30:00Z"
+ *     "contractId": "abc123..."
  *   },
  *   "message": "Database statistics retrieved"
  * }
@@ -261,6 +344,113 @@ router.get("/", async (req, res) => {
 	}
 });
 
+/**
+ * POST /admin/reconcile
+ * Rebuild a contract's vector counters from contract state
+ *
+ * Admin Use Case: Repair statistics for contracts created before counting
+ * existed, or after a counter update failed
+ *
+ * Requires the admin API key in the `X-Admin-Key` header (see requireAdmin).
+ *
+ * Query Parameters:
+ * - contractId: Optional contract ID, a 43-character Arweave transaction ID (fallback to env variable)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "contractId": "abc123...",
+ *     "nodeCount": 1246,
+ *     "deletedCount": 12,
+ *     "metadataBytes": 482113,
+ *     "lastInsertAt": "2025-06-15T10:30:00Z",
+ *     "reconciledAt": "2025-06-16T08:00:00Z",
+ *     "updatedAt": "2025-06-16T08:00:00Z"
+ *   },
+ *   "message": "Vector counters reconciled"
+ * }
+ */
+router.post("/reconcile", requireAdmin, async (req, res) => {
+	try {
+		const parsed = adminReconcileSchema.safeParse({
+			contractId: req.query.contractId,
+		});
+		if (!parsed.success) {
+			res.status(400).json(validationErrorResponse(parsed.error.errors));
+			return;
+		}
+
+		const eizenService = await getAdminEizenService(parsed.data.contractId);
+		const stats = await eizenService.reconcileStats();
+
+		res.json(successResponse(stats, "Vector counters reconciled"));
+	} catch (error) {
+		console.error("Admin stats reconcile error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to reconcile vector counters",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * GET /admin/export/:contractId
+ * Download all memories of a contract as NDJSON
+ *
+ * Admin Use Case: Back up a contract or move a user's data between environments
+ *
+ * Requires the admin API key in the `X-Admin-Key` header (see requireAdmin);
+ * users export their own contract through GET /memories/export.
+ *
+ * URL Parameters:
+ * - contractId: Contract to export
+ *
+ * Query Parameters:
+ * - vectors: "true" to include raw vectors and the embedding model (optional)
+ *
+ * Response: Same NDJSON stream as GET /memories/export
+ */
+router.get(
+	"/export/:contractId",
+	requireAdmin,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const contractId = req.params.contractId as string;
+			const eizenService = await getAdminEizenService(contractId);
+			const memoryService = new MemoryService(eizenService);
+
+			await streamNdjson(
+				res,
+				memoryService.exportMemories({
+					includeVectors: req.query.vectors === "true",
+				}),
+				`memories-${contractId}.ndjson`,
+			);
+		} catch (error) {
+			console.error("Admin export error:", error);
+
+			if (res.headersSent) {
+				res.destroy(error instanceof Error ? error : undefined);
+				return;
+			}
+
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to export memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
 /**
  * POST /admin/deploy
  * Deploy a new Eizen contract (admin operation)
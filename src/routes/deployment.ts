@@ -1,4 +1,5 @@
 import { type Request, type Response, Router } from "express";
+import { deploymentService } from "../services/DeploymentService.js";
 import { EizenService } from "../services/EizenService.js";
 import { errorResponse, successResponse } from "../utils/responses.js";
 import { getUserSubscription } from "../database/models/UserSubscription.js";
@@ -29,9 +30,8 @@ const router = Router();
 
  * TODO: Add authentication middleware to ensure only webhook can call this
  * TODO: Add request validation schema for user data
- * TODO: Add rate limiting to prevent abuse
- * TODO: Add logging for deployment tracking
- * TODO: Consider adding deployment status tracking in DB (idk, try it if y can)
+ * Rate limited per client IP, see RATE_LIMIT_GROUPS.deploy in utils/rateLimiter.ts
+ * Deployment progress is tracked in the deployments table, see GET /deploy/status/:contractId
  */
 router.post("/contract", async (req: Request, res: Response) => {
 	try {
@@ -71,7 +71,7 @@ router.post("/contract", async (req: Request, res: Response) => {
 		}
 
 		// Deploy new Eizen contract on Arweave
-		const deployResult = await EizenService.deployNewContract();
+		const deployResult = await EizenService.deployNewContract(userId);
 		const contractTxId = deployResult.contractId;
 		if(!contractTxId) {
 			res.status(500).json({
@@ -144,22 +144,62 @@ router.post("/contract", async (req: Request, res: Response) => {
  * GET /deploy/status/:contractId
  * Check deployment status of a contract
  *
- * NOTE: its not mandatory
+ * Reports whether a contract is actually live on Arweave, as seen by the
+ * configured gateway. Results are cached (Redis or in memory) for a few
+ * seconds to minutes depending on the status.
  *
- * TODO: Implement this endpoint to check Arweave transaction status
- * TODO: Add caching to avoid excessive Arweave queries
- * TODO: Return deployment progress/confirmation status
+ * Status values:
+ * - pending: Deployment in progress, or transaction waiting to be mined
+ * - bundled: Accepted by Warp's bundler, not yet visible on the gateway
+ * - confirmed: Mined; blockHeight and confirmations are set
+ * - failed: Deployment failed; error holds the reason
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "contractId": "abc123...",
+ *     "status": "confirmed",
+ *     "blockHeight": 1456789,
+ *     "confirmations": 12,
+ *     "userId": "user_123",
+ *     "deployedAt": "2025-06-15T10:30:00Z",
+ *     "confirmedAt": "2025-06-15T10:34:12Z",
+ *     "error": null,
+ *     "checkedAt": "2025-06-15T11:00:00Z"
+ *   },
+ *   "message": "Deployment status retrieved"
+ * }
  */
 router.get("/status/:contractId", async (req: Request, res: Response) => {
-	// TODO: Implement contract deployment status check
-	res
-		.status(501)
-		.json(
-			errorResponse(
-				"Not implemented",
-				"Status check endpoint not yet implemented",
-			),
-		);
+	try {
+		const contractId = String(req.params.contractId);
+		const status = await deploymentService.getStatus(contractId);
+
+		if (!status) {
+			res
+				.status(404)
+				.json(
+					errorResponse(
+						"Deployment not found",
+						`No deployment found for contract: ${contractId}`,
+					),
+				);
+			return;
+		}
+
+		res.json(successResponse(status, "Deployment status retrieved"));
+	} catch (error) {
+		console.error("Deployment status error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to get deployment status",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
 });
 
 export default router;
\ No newline at end of file
@@ -36,10 +36,22 @@ router.get("/detailed", async (req, res) => {
 		// This is for system monitoring, not user-specific operations
 		const fallbackContractId = process.env.EIZEN_CONTRACT_ID;
 
-		let eizenStats = null;
+		// One instance serves both the Eizen and the Memory stats
+		let eizenService: EizenService | null = null;
 		if (fallbackContractId) {
 			try {
-				const eizenService = await EizenService.forContract(fallbackContractId);
+				eizenService = await EizenService.forContract(fallbackContractId);
+			} catch (error) {
+				console.warn(
+					"Could not load fallback contract for health check:",
+					error,
+				);
+			}
+		}
+
+		let eizenStats = null;
+		if (eizenService) {
+			try {
 				eizenStats = await eizenService.getStats();
 			} catch (error) {
 				console.warn("Could not get Eizen stats for health check:", error);
@@ -48,9 +60,8 @@ router.get("/detailed", async (req, res) => {
 
 		// Create memory service instance for health check
 		let memoryStats = null;
-		if (fallbackContractId) {
+		if (eizenService) {
 			try {
-				const eizenService = await EizenService.forContract(fallbackContractId);
 				const memoryService = new MemoryService(eizenService);
 				memoryStats = await memoryService.getStats();
 			} catch (error) {
@@ -85,7 +96,9 @@ router.get("/detailed", async (req, res) => {
 				credentialsEnabled: true,
 				originCount: allowedOrigins.length,
 			},
-			embeddingService: embeddingInfo.isInitialized ? "xenova" : "unavailable",
+			embeddingService: embeddingInfo.isInitialized
+				? embeddingInfo.provider
+				: "unavailable",
 			architecture: "multi-tenant",
 		};
 
@@ -98,10 +111,13 @@ router.get("/detailed", async (req, res) => {
 			environment,
 			config,
 			services: {
+				eizenCache: EizenService.getCacheStats(), // Instance registry shared by all requests
 				eizen: eizenStats
 					? {
 							initialized: eizenStats.isInitialized,
 							totalVectors: eizenStats.totalVectors,
+							lastInsertAt: eizenStats.lastInsertAt,
+							storageBytes: eizenStats.storageBytes,
 							contractId: eizenStats.contractId,
 							note: "Stats from admin fallback contract",
 						}
@@ -123,7 +139,7 @@ router.get("/detailed", async (req, res) => {
 					: {
 							status: "operational",
 							embeddingService: embeddingInfo.isInitialized
-								? "xenova"
+								? embeddingInfo.provider
 								: "unavailable",
 							embeddingModel: embeddingInfo.isInitialized
 								? embeddingInfo.model
@@ -233,7 +249,7 @@ router.get("/memory", async (req, res) => {
 						adminFallback:
 							"not configured (optional for admin operations only)",
 						embeddingService: embeddingService.getInfo().isInitialized
-							? "xenova"
+							? embeddingService.getInfo().provider
 							: "unavailable",
 						embeddingModel: embeddingService.getInfo().isInitialized
 							? embeddingService.getInfo().model
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { jobService } from "../services/JobService.js";
+import { errorResponse, successResponse } from "../utils/responses.js";
+
+//  Status of background jobs, e.g. POST /memories/insert?async=true
+//  All routes are mounted behind verifyContractHashMiddleware (see server.ts)
+
+const router = Router();
+
+/**
+ * GET /jobs/:id
+ * Get the status of a background job
+ *
+ * status: "queued" (waiting, or waiting to retry after a transient error),
+ * "running", "completed" (with `result`) or "failed" (with `error`).
+ * Jobs of other contracts are reported as not found.
+ */
+router.get("/:id", async (req, res) => {
+	try {
+		const job = await jobService.getJob(req.params.id);
+
+		if (!job || job.contractId !== req.contract?.contractId) {
+			res
+				.status(404)
+				.json(
+					errorResponse(
+						"Job not found",
+						`No job with ID ${req.params.id}, or it has expired`,
+					),
+				);
+			return;
+		}
+
+		res.json(successResponse(job, `Job ${job.status}`));
+	} catch (error) {
+		console.error("Job status error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to get job",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+export default router;
@@ -1,30 +1,44 @@
-import { type Request, type Response, Router } from "express";
+import express, { type Request, type Response, Router } from "express";
+import { enforceQuota, refundQuota } from "../middlewares/quota.js";
 import { validateData } from "../middlewares/validate.js";
-import { createMemorySchema, searchMemorySchema } from "../schemas/memory.js";
+import {
+	batchCreateMemorySchema,
+	createMemorySchema,
+	listMemoriesSchema,
+	searchMemorySchema,
+	updateMemorySchema,
+} from "../schemas/memory.js";
 import { EizenService } from "../services/EizenService.js";
+import { importService } from "../services/ImportService.js";
+import { jobService } from "../services/JobService.js";
 import { MemoryService } from "../services/MemoryService.js";
-import { errorResponse, successResponse } from "../utils/responses.js";
+import { streamNdjson } from "../utils/ndjson.js";
+import {
+	errorResponse,
+	successResponse,
+	validationErrorResponse,
+} from "../utils/responses.js";
 
 //  User-facing semantic memory API
+//  All routes are mounted behind verifyContractHashMiddleware (see server.ts)
+//  Inserts and searches are charged against the owner's subscription quota (see middlewares/quota.ts)
 
 const router = Router();
 
-// TODO: Replace this with actual user lookup from SQL database
-// This will be implemented when payment gateway integration is added
+/**
+ * Build a MemoryService bound to the caller's own contract
+ *
+ * The contract ID comes from the instance key verified by
+ * verifyContractHashMiddleware, so every tenant only ever reads and writes
+ * its own vector store. There is deliberately no shared fallback contract.
+ *
+ * @throws Error if the request was not authenticated with an instance key
+ */
 async function getUserMemoryService(req: Request): Promise<MemoryService> {
-	// TODO: Extract API key from request headers
-	// const apiKey = req.headers['x-api-key'] as string;
-
-	// TODO: Look up user's contract ID from database
-	// const user = await getUserByApiKey(apiKey);
-	// const eizenService = await EizenService.forContract(user.contractId);
-	// return new MemoryService(eizenService);
-
-	// For now, use environment variable as fallback (single tenant mode)
-	const contractId = process.env.EIZEN_CONTRACT_ID;
+	const contractId = req.contract?.contractId;
 	if (!contractId) {
 		throw new Error(
-			"No contract ID available. Please implement user lookup or set EIZEN_CONTRACT_ID",
+			"No contract ID available. Requests must be authenticated with an instance key",
 		);
 	}
 
@@ -46,29 +60,110 @@ async function getUserMemoryService(req: Request): Promise<MemoryService> {
  *     "tags": ["preference", "color"],
  *     "timestamp": "2025-06-06T14:30:00Z",
  *     "client": "cursor"
- *   }
+ *   },
+ *   "dedupe": "merge"
  * }
+ *
+ * dedupe: "insert" (default), "skip" or "merge" when a near-duplicate exists.
+ * Responds 201 when a memory was created, 200 with `reused: true` and the
+ * existing memory ID when a near-duplicate was skipped or merged into.
+ * With `?async=true` the memory is created in the background: responds 202
+ * with a job whose status and result are reported by GET /jobs/:id.
  */
-router.post("/insert", validateData(createMemorySchema), async (req, res) => {
-	try {
-		const memoryService = await getUserMemoryService(req);
-		const result = await memoryService.createMemory(req.body);
+router.post(
+	"/insert",
+	validateData(createMemorySchema),
+	enforceQuota(),
+	async (req, res) => {
+		try {
+			if (req.query.async === "true") {
+				const { contractId, userId } = req.contract ?? {};
+				if (!contractId || !userId) {
+					throw new Error(
+						"No contract ID available. Requests must be authenticated with an instance key",
+					);
+				}
 
-		res
-			.status(201)
-			.json(successResponse(result, "Memory created successfully"));
-	} catch (error) {
-		console.error("Memory creation error:", error);
-		res
-			.status(500)
-			.json(
-				errorResponse(
-					"Failed to create memory",
-					error instanceof Error ? error.message : "Unknown error",
-				),
-			);
-	}
-});
+				// The job keeps the charge and gives it back if it fails
+				const job = await jobService.enqueueMemoryInsert(contractId, req.body, {
+					userId,
+					units: 1,
+				});
+
+				res
+					.status(202)
+					.location(`/jobs/${job.id}`)
+					.json(successResponse(job, "Memory creation queued"));
+				return;
+			}
+
+			const memoryService = await getUserMemoryService(req);
+			const result = await memoryService.createMemory(req.body);
+
+			res
+				.status(result.reused ? 200 : 201)
+				.json(
+					successResponse(
+						result,
+						result.reused
+							? "Existing memory reused"
+							: "Memory created successfully",
+					),
+				);
+		} catch (error) {
+			console.error("Memory creation error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to create memory",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * POST /memories/batch
+ * Create many memories in one request
+ * Contents are embedded in one model pass and stored in one contract interaction
+ * Responds 201 when every memory was created, 207 with per-item results otherwise
+ *
+ * Request body:
+ * {
+ *   "memories": [
+ *     { "content": "User's favorite color is blue", "metadata": { "tags": ["preference"] } },
+ *     { "content": "User works remotely on Fridays", "metadata": { "importance": 6 } }
+ *   ]
+ * }
+ */
+router.post(
+	"/batch",
+	validateData(batchCreateMemorySchema),
+	enforceQuota((req) => req.body.memories.length),
+	async (req, res) => {
+		try {
+			const memoryService = await getUserMemoryService(req);
+			const result = await memoryService.createMemories(req.body.memories);
+			refundQuota(res, result.failed);
+
+			res
+				.status(result.success ? 201 : 207)
+				.json(successResponse(result, result.message));
+		} catch (error) {
+			console.error("Memory batch creation error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to create memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
 
 /**
  * GET /memories/search
@@ -78,42 +173,365 @@ router.post("/insert", validateData(createMemorySchema), async (req, res) => {
  * Query parameters:
  * - query: The search text
  * - k: Number of results (optional, default 10)
+ * - mode: "semantic" (default), "keyword" or "hybrid"
+ * - rerank: "true" to re-rank candidates with the cross-encoder (optional)
+ * - scoring: Scoring preset, e.g. "recent-first" or "important-first" (optional)
  * - filters: Optional JSON string with search filters
+ *
+ * Filters are applied during the search, which widens until k memories
+ * match or the candidate budget is used up. The response `meta` reports
+ * the `mode`, `candidatesScanned` and `budgetExhausted`. Long memories
+ * found through one of their chunks carry the matching chunk as `highlight`.
+ */
+router.get(
+	"/search",
+	enforceQuota(),
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { query, k, mode, rerank, scoring, filters } = req.query;
+
+			if (!query || typeof query !== "string") {
+				res
+					.status(400)
+					.json(
+						errorResponse(
+							"Invalid query parameter",
+							"Query parameter is required and must be a string",
+						),
+					);
+				return;
+			}
+
+			// Parse search request
+			const searchRequest = {
+				query,
+				k: k ? Number.parseInt(k as string, 10) : 10,
+				mode,
+				rerank: rerank === "true",
+				scoring: scoring ? { preset: scoring } : undefined,
+				filters: filters ? JSON.parse(filters as string) : undefined,
+			};
+
+			// Validate the search request
+			const validatedRequest = searchMemorySchema.parse(searchRequest);
+
+			const memoryService = await getUserMemoryService(req);
+			const { memories, ...searchStats } =
+				await memoryService.searchMemories(validatedRequest);
+
+			res.json(
+				successResponse(
+					memories,
+					`Found ${memories.length} relevant memories`,
+					searchStats,
+				),
+			);
+		} catch (error) {
+			console.error("Memory search error:", error);
+
+			if (error instanceof SyntaxError) {
+				res
+					.status(400)
+					.json(
+						errorResponse(
+							"Invalid filters parameter",
+							"Filters must be valid JSON",
+						),
+					);
+				return;
+			}
+
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to search memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * POST /memories/search
+ * Alternative POST endpoint for memory search with request body
+ * Useful for complex search queries
+ *
+ * Request body:
+ * {
+ *   "query": "favorite color preference",
+ *   "k": 5,
+ *   "mode": "hybrid",
+ *   "rerank": true,
+ *   "scoring": { "preset": "important-first", "weights": { "recency": 0.2 } },
+ *   "filters": {
+ *     "tags": ["preference", "color"],
+ *     "importance_min": 5
+ *   }
+ * }
+ */
+router.post(
+	"/search",
+	validateData(searchMemorySchema),
+	enforceQuota(),
+	async (req, res) => {
+		try {
+			const memoryService = await getUserMemoryService(req);
+			const { memories, ...searchStats } = await memoryService.searchMemories(
+				req.body,
+			);
+
+			res.json(
+				successResponse(
+					memories,
+					`Found ${memories.length} relevant memories`,
+					searchStats,
+				),
+			);
+		} catch (error) {
+			console.error("Memory search error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to search memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/search/:id
+ * Get a specific memory by its vector ID
+ */
+router.get(
+	"/search/:id",
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(req);
+			const memoryId = Number.parseInt(req.params.id, 10);
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+
+			const memory = await memoryService.getMemory(memoryId);
+
+			if (!memory) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memory found with ID: ${memoryId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(successResponse(memory, "Memory retrieved successfully"));
+		} catch (error) {
+			console.error("Memory get error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to retrieve memory",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * PATCH /memories/:id
+ * Update a memory's content and/or metadata in place
+ * Changed content is re-embedded; metadata is merged into the existing metadata
+ *
+ * Request body:
+ * {
+ *   "content": "User's favorite color is green",
+ *   "metadata": {
+ *     "importance": 8,
+ *     "tags": ["preference", "color"]
+ *   }
+ * }
  */
-router.get("/search", async (req: Request, res: Response): Promise<void> => {
+router.patch(
+	"/:id",
+	validateData(updateMemorySchema),
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryId = Number.parseInt(String(req.params.id), 10);
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+
+			const memoryService = await getUserMemoryService(req);
+			const result = await memoryService.updateMemory(memoryId, req.body);
+
+			if (!result) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memory found with ID: ${memoryId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(successResponse(result, "Memory updated successfully"));
+		} catch (error) {
+			console.error("Memory update error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to update memory",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * DELETE /memories/:id
+ * Delete a specific memory by its vector ID
+ * The memory is tombstoned and never returned by search or lookup again
+ */
+router.delete("/:id", async (req: Request, res: Response): Promise<void> => {
 	try {
-		const { query, k, filters } = req.query;
+		const memoryId = Number.parseInt(String(req.params.id), 10);
 
-		if (!query || typeof query !== "string") {
+		if (Number.isNaN(memoryId)) {
 			res
 				.status(400)
+				.json(errorResponse("Invalid memory ID", "Memory ID must be a number"));
+			return;
+		}
+
+		const memoryService = await getUserMemoryService(req);
+		const result = await memoryService.deleteMemory(memoryId);
+
+		if (!result) {
+			res
+				.status(404)
 				.json(
 					errorResponse(
-						"Invalid query parameter",
-						"Query parameter is required and must be a string",
+						"Memory not found",
+						`No memory found with ID: ${memoryId}`,
 					),
 				);
 			return;
 		}
 
-		// Parse search request
-		const searchRequest = {
-			query,
-			k: k ? Number.parseInt(k as string, 10) : 10,
+		res.json(successResponse(result, "Memory deleted successfully"));
+	} catch (error) {
+		console.error("Memory delete error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to delete memory",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * POST /memories/keyword-index/rebuild
+ * Rebuild the keyword search index from the contract's stored metadata
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": { "indexed": 1234 },
+ *   "message": "Keyword index rebuilt with 1234 memories"
+ * }
+ */
+router.post("/keyword-index/rebuild", async (req, res) => {
+	try {
+		const memoryService = await getUserMemoryService(req);
+		const indexed = await memoryService.rebuildKeywordIndex();
+
+		res.json(
+			successResponse(
+				{ indexed },
+				`Keyword index rebuilt with ${indexed} memories`,
+			),
+		);
+	} catch (error) {
+		console.error("Keyword index rebuild error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to rebuild keyword index",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * GET /memories/list
+ * Browse stored memories with cursor pagination
+ *
+ * Query parameters:
+ * - limit: Memories per page (optional, default 20, max 100)
+ * - cursor: `nextCursor` from the previous page (optional)
+ * - sort: "id" (default, insertion order), "timestamp" or "importance"
+ * - order: "desc" (default) or "asc"
+ * - filters: Optional JSON string with the same filters as search
+ *
+ * The response `meta` holds `nextCursor` (null on the last page) and the
+ * number of index entries `scanned`. Filtered pages may hold fewer than
+ * `limit` memories; keep following `nextCursor` until it is null.
+ */
+router.get("/list", async (req: Request, res: Response): Promise<void> => {
+	try {
+		const { limit, cursor, sort, order, filters } = req.query;
+
+		const parsed = listMemoriesSchema.safeParse({
+			limit: limit ? Number.parseInt(limit as string, 10) : undefined,
+			cursor,
+			sort,
+			order,
 			filters: filters ? JSON.parse(filters as string) : undefined,
-		};
+		});
 
-		// Validate the search request
-		const validatedRequest = searchMemorySchema.parse(searchRequest);
+		if (!parsed.success) {
+			res.status(400).json(validationErrorResponse(parsed.error.errors));
+			return;
+		}
 
 		const memoryService = await getUserMemoryService(req);
-		const results = await memoryService.searchMemories(validatedRequest);
+		const { memories, ...page } = await memoryService.listMemories(parsed.data);
 
 		res.json(
-			successResponse(results, `Found ${results.length} relevant memories`),
+			successResponse(memories, `Listed ${memories.length} memories`, page),
 		);
 	} catch (error) {
-		console.error("Memory search error:", error);
+		console.error("Memory list error:", error);
 
 		if (error instanceof SyntaxError) {
 			res
@@ -131,7 +549,7 @@ router.get("/search", async (req: Request, res: Response): Promise<void> => {
 			.status(500)
 			.json(
 				errorResponse(
-					"Failed to search memories",
+					"Failed to list memories",
 					error instanceof Error ? error.message : "Unknown error",
 				),
 			);
@@ -139,35 +557,41 @@ router.get("/search", async (req: Request, res: Response): Promise<void> => {
 });
 
 /**
- * POST /memories/search
- * Alternative POST endpoint for memory search with request body
- * Useful for complex search queries
+ * GET /memories/export
+ * Download all memories of the caller's contract as NDJSON
  *
- * Request body:
- * {
- *   "query": "favorite color preference",
- *   "k": 5,
- *   "filters": {
- *     "tags": ["preference", "color"],
- *     "importance_min": 5
- *   }
- * }
+ * Query parameters:
+ * - vectors: "true" to include each memory's raw vector and embedding model (optional)
+ *
+ * Each line is one memory:
+ * { "id": 42, "content": "...", "metadata": { ... }, "vector": [...], "provider": "xenova", "model": "Xenova/all-MiniLM-L6-v2" }
+ *
+ * The contract is read page by page while the response is streamed.
  */
-router.post("/search", validateData(searchMemorySchema), async (req, res) => {
+router.get("/export", async (req: Request, res: Response): Promise<void> => {
 	try {
 		const memoryService = await getUserMemoryService(req);
-		const results = await memoryService.searchMemories(req.body);
+		const includeVectors = req.query.vectors === "true";
 
-		res.json(
-			successResponse(results, `Found ${results.length} relevant memories`),
+		await streamNdjson(
+			res,
+			memoryService.exportMemories({ includeVectors }),
+			`memories-${req.contract?.contractId}.ndjson`,
 		);
 	} catch (error) {
-		console.error("Memory search error:", error);
+		console.error("Memory export error:", error);
+
+		// Once streaming started the status is sent; cut the download short instead
+		if (res.headersSent) {
+			res.destroy(error instanceof Error ? error : undefined);
+			return;
+		}
+
 		res
 			.status(500)
 			.json(
 				errorResponse(
-					"Failed to search memories",
+					"Failed to export memories",
 					error instanceof Error ? error.message : "Unknown error",
 				),
 			);
@@ -175,47 +599,191 @@ router.post("/search", validateData(searchMemorySchema), async (req, res) => {
 });
 
 /**
- * GET /memories/search/:id
- * Get a specific memory by its vector ID
+ * POST /memories/import
+ * Import memories from an NDJSON upload in the background
+ *
+ * Content-Type: application/x-ndjson (or text/plain), one memory per line:
+ * - { "content": "...", "metadata": { ... } } — embedded on import
+ * - { "content": "...", "metadata": { ... }, "vector": [...], "provider": "xenova", "model": "..." }
+ *   as written by GET /memories/export?vectors=true. The vector is stored as-is
+ *   when it was produced by the model this server embeds with, otherwise the
+ *   content is re-embedded.
+ *
+ * The whole upload is validated first; any invalid line rejects it with 400
+ * and the offending line numbers. Otherwise responds 202 with the import job,
+ * whose progress is reported by GET /memories/import/:jobId.
+ *
+ * Every memory counts as one operation against the quota; rows that fail to
+ * import are given back.
  */
-router.get(
-	"/search/:id",
+router.post(
+	"/import",
+	express.text({
+		type: ["application/x-ndjson", "text/plain"],
+		limit: process.env.MEMORY_IMPORT_MAX_BYTES?.trim() || "20mb",
+	}),
+	enforceQuota((req) =>
+		typeof req.body === "string"
+			? req.body.split(/\r?\n/).filter((line) => line.trim()).length
+			: 0,
+	),
 	async (req: Request, res: Response): Promise<void> => {
 		try {
-			const memoryService = await getUserMemoryService(req);
-			const memoryId = Number.parseInt(req.params.id, 10);
+			const contractId = req.contract?.contractId;
+			if (!contractId) {
+				throw new Error(
+					"No contract ID available. Requests must be authenticated with an instance key",
+				);
+			}
 
-			if (Number.isNaN(memoryId)) {
+			if (typeof req.body !== "string") {
 				res
-					.status(400)
+					.status(415)
 					.json(
-						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+						errorResponse(
+							"Unsupported content type",
+							"Upload the memories as application/x-ndjson",
+						),
 					);
 				return;
 			}
 
-			const memory = await memoryService.getMemory(memoryId);
+			const { job, errors } = await importService.createJob(
+				contractId,
+				req.body,
+				req.contract?.userId,
+			);
 
-			if (!memory) {
+			if (!job) {
+				res.status(400).json(
+					validationErrorResponse(
+						errors.map(({ line, error }) => ({
+							path: ["line", line],
+							message: error,
+							code: "invalid_line",
+						})),
+						"Invalid import file",
+					),
+				);
+				return;
+			}
+
+			res
+				.status(202)
+				.location(`${req.baseUrl}/import/${job.jobId}`)
+				.json(successResponse(job, `Importing ${job.totalRows} memories`));
+		} catch (error) {
+			console.error("Memory import error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to import memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/import/:jobId
+ * Get the progress of an import job
+ *
+ * Reports processed, imported, re-embedded and failed row counts, and the
+ * line numbers and errors of failed rows (up to 100).
+ */
+router.get("/import/:jobId", async (req, res): Promise<void> => {
+	try {
+		const job = await importService.getStatus(req.params.jobId);
+
+		// Jobs of other contracts are reported as missing
+		if (!job || job.contractId !== req.contract?.contractId) {
+			res
+				.status(404)
+				.json(
+					errorResponse(
+						"Import job not found",
+						`No import job with ID ${req.params.jobId}`,
+					),
+				);
+			return;
+		}
+
+		res.json(successResponse(job, `Import job ${job.status}`));
+	} catch (error) {
+		console.error("Import status error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to get import job",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * POST /memories/import/:jobId/resume
+ * Restart a failed import job from its last completed batch
+ *
+ * The rows still to import are charged against the quota again; they were
+ * given back when the job failed.
+ */
+router.post(
+	"/import/:jobId/resume",
+	enforceQuota(async (req) => {
+		const job = await importService.getStatus(String(req.params.jobId));
+		return job?.status === "failed" ? job.totalRows - job.processedRows : 0;
+	}),
+	async (req, res): Promise<void> => {
+		const jobId = String(req.params.jobId);
+
+		try {
+			const existing = await importService.getStatus(jobId);
+
+			if (!existing || existing.contractId !== req.contract?.contractId) {
 				res
 					.status(404)
 					.json(
 						errorResponse(
-							"Memory not found",
-							`No memory found with ID: ${memoryId}`,
+							"Import job not found",
+							`No import job with ID ${jobId}`,
 						),
 					);
 				return;
 			}
 
-			res.json(successResponse(memory, "Memory retrieved successfully"));
+			const job = await importService.resume(existing.jobId);
+
+			if (!job) {
+				res
+					.status(409)
+					.json(
+						errorResponse(
+							"Import job cannot be resumed",
+							`Only failed jobs can be resumed; this job is ${existing.status}`,
+						),
+					);
+				return;
+			}
+
+			res
+				.status(202)
+				.json(
+					successResponse(
+						job,
+						`Resuming import at row ${job.processedRows + 1}`,
+					),
+				);
 		} catch (error) {
-			console.error("Memory get error:", error);
+			console.error("Import resume error:", error);
 			res
 				.status(500)
 				.json(
 					errorResponse(
-						"Failed to retrieve memory",
+						"Failed to resume import job",
 						error instanceof Error ? error.message : "Unknown error",
 					),
 				);
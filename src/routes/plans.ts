@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { PLANS, PLAN_IDS, PLAN_PERIOD_DAYS } from "../config/plans.js";
+import { successResponse } from "../utils/responses.js";
+
+const router = Router();
+
+/**
+ * GET /plans
+ * List the subscription plans for the pricing page
+ * Public: no authentication required
+ *
+ * Each plan lists its price (USD and wei), quota of memory operations per
+ * billing period, maximum memory size, rate limits and features.
+ */
+router.get("/", (_req, res) => {
+	res.json(
+		successResponse(
+			PLAN_IDS.map((id) => PLANS[id]),
+			"Subscription plans",
+			{ periodDays: PLAN_PERIOD_DAYS },
+		),
+	);
+});
+
+export default router;
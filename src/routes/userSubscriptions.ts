@@ -1,5 +1,9 @@
 import express from 'express';
+import { PLANS, isPlanId, planPeriodEnd } from '../config/plans.js';
 import { createUserSubscription, getUserSubscription, updateUserSubscription, deleteUserSubscription } from '../database/models/UserSubscription.js';
+import { getUserByClerkId } from '../database/models/User.js';
+import { listPaymentsByUser } from '../database/models/payments.js';
+import { redeemPayment } from '../services/PaymentLedger.js';
 
 export const userSubscriptionsRouter = express.Router();
 
@@ -7,24 +11,42 @@ userSubscriptionsRouter.post('/create', async (req, res) => {
     const txnId = req.body.transactionId;
     const userId = req.userId;
     const subscriptionPlan = req.body.subscriptionPlan;
-    const quotaLimit = req.body.quotaLimit || 1000; // Default quota limit if not provided
     try{
-        if (!txnId || !userId || !subscriptionPlan) {
+        if (typeof txnId !== 'string' || !txnId || !userId || !subscriptionPlan) {
             res.status(400).json({ error: 'Missing required fields' });
             return;
         }
+        if (!isPlanId(subscriptionPlan)) {
+            res.status(400).json({ error: `Unknown subscription plan: ${subscriptionPlan}` });
+            return;
+        }
         const existingSubscription = await getUserSubscription(userId);
         if (existingSubscription) {
             res.status(400).json({ error: 'User already has an active subscription' });
             return;
         }
-        const subscription = await createUserSubscription({
+        const user = await getUserByClerkId(userId);
+        if (!user?.metaMaskWalletAddress) {
+            res.status(400).json({ error: 'No wallet address linked to this user' });
+            return;
+        }
+        // The transaction must pay for the plan and can only be redeemed once
+        const redemption = await redeemPayment({
+            userId,
+            txHash: txnId,
+            planId: subscriptionPlan,
+            walletAddress: user.metaMaskWalletAddress,
+        }, () => createUserSubscription({
             clerkUserId: userId,
             plan: subscriptionPlan,
-            quotaLimit,
-            renewsAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)}); // Set renewsAt to 30 days from now
+            quotaLimit: PLANS[subscriptionPlan].quotaLimit, // Limits come from the plan catalog, never from the request
+            renewsAt: planPeriodEnd()}));
+        if (!redemption.ok) {
+            res.status(redemption.status).json({ transactionId: txnId, error: redemption.error });
+            return;
+        }
         console.log('User subscription created:', userId);
-        res.status(201).json(subscription[0]);
+        res.status(201).json(redemption.result[0]);
     }
     catch(err){
             console.error('Error creating user subscription:', err);
@@ -53,12 +75,49 @@ userSubscriptionsRouter.get('/list', async (req, res) => {
     }
 });
 
+userSubscriptionsRouter.get('/payments', async (req, res) => {
+    const userId = req.userId;
+    if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+    }
+    try {
+        const payments = await listPaymentsByUser(userId);
+        res.status(200).json(payments);
+    } catch (err) {
+        console.error('Error fetching user payments:', err);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Fields a user may change on their own subscription. Plan, quota and renewal
+// only change through a verified payment (POST /create or the web3 webhook)
+const EDITABLE_SUBSCRIPTION_FIELDS = ['isActive'];
+
 userSubscriptionsRouter.put('/update/:userId', async (req, res) => {
     const userId = req.params.userId;
-    const updates = req.body;
+    if (!req.userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+    }
+    if (userId !== req.userId) {
+        res.status(403).json({ error: 'Cannot update another user\'s subscription' });
+        return;
+    }
+
+    const fields = Object.keys(req.body ?? {});
+    const rejected = fields.filter((field) => !EDITABLE_SUBSCRIPTION_FIELDS.includes(field));
+    if (rejected.length > 0) {
+        res.status(400).json({ error: `Fields cannot be updated: ${rejected.join(', ')}` });
+        return;
+    }
+    if (typeof req.body.isActive !== 'boolean') {
+        res.status(400).json({ error: 'isActive must be a boolean' });
+        return;
+    }
 
     try {
-        const updatedSubscription = await updateUserSubscription(userId, updates);
+        const updatedSubscription = await updateUserSubscription(userId, { isActive: req.body.isActive });
         if (updatedSubscription.length === 0) {
             res.status(404).json({ error: 'No subscription found for this user' });
             return;
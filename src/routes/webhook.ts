@@ -1,8 +1,9 @@
 import express from "express";
+import { PLANS, isPlanId, planPeriodEnd } from "../config/plans.js";
 import { createUser, getUserByClerkId } from "../database/models/User.js";
 import { createUserSubscription, getUserSubscription, updateUserSubscription } from "../database/models/UserSubscription.js";
 import { auth } from "../middlewares/auth.js";
-import { verifyTransaction } from "../utils/etherScan.js";
+import { type RedeemPaymentResult, redeemPayment } from "../services/PaymentLedger.js";
 
 export const webhook = express.Router();
 
@@ -30,7 +31,6 @@ webhook.post("/payments/web3", async (req, res) => {
 	const txHash = req.body.txHash;
 	const userId = req.userId;
 	const subscriptionPlan = req.body.subscriptionPlan;
-	const quotaLimit = req.body.quotaLimit || 1000; // Default quota limit if not provided
 
 	console.log('Receieved payment webhook:✅')
 
@@ -46,43 +46,62 @@ webhook.post("/payments/web3", async (req, res) => {
 		return;
 	}
 
-	if (!txHash || !userId || !subscriptionPlan) {
+	if (typeof txHash !== "string" || !txHash || !userId || !subscriptionPlan) {
 		res.status(400).json({ error: "Missing required fields" });
 		return;
 	}
-	// Verify the transaction using Etherscan API
-	const verifyTxn = await verifyTransaction(txHash);
-	const result = verifyTxn.result;
-	console.log(result.data);
-	if(result.isError === "0"){
-		const findSubscription = await getUserSubscription(userId);
-		if(findSubscription) {
-			//If the user already has a subscription, update it
-			await updateUserSubscription( userId, {
+	if (!isPlanId(subscriptionPlan)) {
+		res.status(400).json({ error: `Unknown subscription plan: ${subscriptionPlan}` });
+		return;
+	}
+	// Limits come from the plan catalog, never from the request
+	const { quotaLimit } = PLANS[subscriptionPlan];
+	if (!user.metaMaskWalletAddress) {
+		res.status(400).json({ error: "No wallet address linked to this user" });
+		return;
+	}
+	// Verify the payment on-chain and redeem its hash once, then activate the plan
+	let redemption: RedeemPaymentResult<string>;
+	try {
+		redemption = await redeemPayment({
+			userId,
+			txHash,
+			planId: subscriptionPlan,
+			walletAddress: user.metaMaskWalletAddress,
+		}, async () => {
+			const findSubscription = await getUserSubscription(userId);
+			if(findSubscription) {
+				//If the user already has a subscription, update it
+				await updateUserSubscription( userId, {
+					plan: subscriptionPlan,
+					quotaLimit,
+					isActive: true,
+					renewsAt: planPeriodEnd(),
+					quotaUsed: 0	
+				})
+				console.log("User subscription updated", userId);
+				return "Subscription updated";
+			}
+			// If the user does not have a subscription, create a new one
+			await createUserSubscription({
+				clerkUserId: userId,
 				plan: subscriptionPlan,
 				quotaLimit,
 				isActive: true,
-				renewsAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // Set renewsAt to 30 days from now	
-				quotaUsed: 0	
-			})
-			console.log("User subscription updated", userId);
-			res.status(200).json({ message: "Subscription updated", userId});
-			return;
-		}
-		// If the user does not have a subscription, create a new one
-		await createUserSubscription({
-			clerkUserId: userId,
-			plan: subscriptionPlan,
-			quotaLimit,
-			isActive: true,
-			renewsAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // Set renewsAt to 30 days from now
+				renewsAt: planPeriodEnd(),
+			});
+			console.log("User subscription created", userId);
+			return "Subscription created";
 		});
-		console.log("User subscription created", userId);
-		res.status(200).json({ message: "Subscription created", userId });
+	} catch (error) {
+		console.error("Error redeeming payment:", error);
+		res.status(500).json({ error: "Internal server error" });
 		return;
-		
+	}
+	if(redemption.ok){
+		res.status(200).json({ message: redemption.result, userId, paymentId: redemption.payment.id });
 	}else{
-		console.error("Transaction error");
-		res.status(400).json({ txHash, error: result.errDescription });
+		console.error("Payment rejected:", redemption.error);
+		res.status(redemption.status).json({ txHash, error: redemption.error });
 	}
 });
@@ -17,6 +17,115 @@ export const memoryMetadataSchema = z
 	})
 	.describe("Structured metadata for AI memory storage that Api will received");
 
+/** Maximum number of clauses in a single and/or group of a metadata predicate */
+export const MAX_PREDICATE_CLAUSES = 20;
+
+const predicateValueSchema = z.union([
+	z.string(),
+	z.number(),
+	z.boolean(),
+	z.null(),
+]);
+const rangeBoundSchema = z.union([z.number(), z.string().datetime()]); // Numbers, or ISO 8601 timestamps for dates
+const metadataKeySchema = z.string().min(1).max(100);
+
+type PredicateValue = z.infer<typeof predicateValueSchema>;
+type RangeBound = z.infer<typeof rangeBoundSchema>;
+
+export type MetadataPredicate =
+	| { op: "eq"; key: string; value: PredicateValue }
+	| { op: "in"; key: string; values: PredicateValue[] }
+	| {
+			op: "range";
+			key: string;
+			gt?: RangeBound;
+			gte?: RangeBound;
+			lt?: RangeBound;
+			lte?: RangeBound;
+	  }
+	| { op: "exists"; key: string }
+	| { op: "contains"; key: string; value: string | number | boolean }
+	| { op: "and"; clauses: MetadataPredicate[] }
+	| { op: "or"; clauses: MetadataPredicate[] }
+	| { op: "not"; clause: MetadataPredicate };
+
+/** Metadata predicate - boolean expression over arbitrary metadata keys
+Example: memories of project "archivenet" tagged "work" or with importance >= 8,
+excluding one conversation:
+{
+  "op": "and",
+  "clauses": [
+    { "op": "eq", "key": "project", "value": "archivenet" },
+    {
+      "op": "or",
+      "clauses": [
+        { "op": "contains", "key": "tags", "value": "work" },
+        { "op": "range", "key": "importance", "gte": 8 }
+      ]
+    },
+    { "op": "not", "clause": { "op": "eq", "key": "conversation_id", "value": "c_42" } }
+  ]
+}
+*/
+export const metadataPredicateSchema: z.ZodType<MetadataPredicate> = z.lazy(
+	() =>
+		z
+			.discriminatedUnion("op", [
+				z.object({
+					op: z.literal("eq"),
+					key: metadataKeySchema,
+					value: predicateValueSchema,
+				}),
+				z.object({
+					op: z.literal("in"),
+					key: metadataKeySchema,
+					values: z.array(predicateValueSchema).min(1).max(100),
+				}),
+				z.object({
+					op: z.literal("range"),
+					key: metadataKeySchema,
+					gt: rangeBoundSchema.optional(),
+					gte: rangeBoundSchema.optional(),
+					lt: rangeBoundSchema.optional(),
+					lte: rangeBoundSchema.optional(),
+				}),
+				z.object({ op: z.literal("exists"), key: metadataKeySchema }),
+				z.object({
+					op: z.literal("contains"),
+					key: metadataKeySchema,
+					value: z.union([z.string(), z.number(), z.boolean()]),
+				}),
+				z.object({
+					op: z.literal("and"),
+					clauses: z
+						.array(metadataPredicateSchema)
+						.min(1)
+						.max(MAX_PREDICATE_CLAUSES),
+				}),
+				z.object({
+					op: z.literal("or"),
+					clauses: z
+						.array(metadataPredicateSchema)
+						.min(1)
+						.max(MAX_PREDICATE_CLAUSES),
+				}),
+				z.object({ op: z.literal("not"), clause: metadataPredicateSchema }),
+			])
+			.superRefine((predicate, ctx) => {
+				if (
+					predicate.op === "range" &&
+					[predicate.gt, predicate.gte, predicate.lt, predicate.lte].every(
+						(bound) => bound === undefined,
+					)
+				) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						message: "A range predicate needs at least one of gt, gte, lt, lte",
+					});
+				}
+			}),
+);
+
 // Search filters for memory queries
 export const searchFiltersSchema = z
 	.object({
@@ -27,6 +136,7 @@ export const searchFiltersSchema = z
 		date_to: z.string().datetime().optional(), // Search to date
 		context: z.string().optional(), // Filter by context
 		client: z.string().optional(), // Filer by client name (cursor, claude, copilot etc...)
+		where: metadataPredicateSchema.optional(), // Predicate over any metadata key (project, conversation_id etc...)
 	})
 	.describe("Filters for memory search queries");
 
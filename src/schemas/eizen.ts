@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { arweaveTransactionIdSchema } from "./common.js";
 
 //This schemas are what Eizen expects
 
@@ -92,6 +93,17 @@ export const adminSearchVectorSchema = z
 		"Schema for admin Eizen.knn_search(query, k) method with optional contractId",
 	);
 
+/** Admin reconcile request - the contract whose vector counters are rebuilt */
+export const adminReconcileSchema = z
+	.object({
+		contractId: arweaveTransactionIdSchema
+			.optional()
+			.describe(
+				"Optional contract ID for admin operations. If not provided, uses EIZEN_CONTRACT_ID from environment",
+			),
+	})
+	.describe("Schema for admin reconcileStats() query parameters");
+
 export type VectorEmbedding = z.infer<typeof vectorEmbeddingSchema>;
 export type VectorMetadata = z.infer<typeof vectorMetadataSchema>;
 export type InsertVector = z.infer<typeof insertVectorSchema>;
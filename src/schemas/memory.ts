@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { decodeListCursor } from "../utils/listCursor.js";
 import { memoryMetadataSchema, searchFiltersSchema } from "./common.js";
 
 // This schemas are what ArchiveNET api expects
@@ -16,19 +17,92 @@ Content-Type: application/json
     "tags": ["preference", "color", "personal"],
     "timestamp": "2025-06-06T14:30:00Z",
     "client": "cursor"
-  }
+  },
+  "dedupe": "merge"
 }
 */
 
+/** What to do when a near-duplicate of a new memory already exists: store it anyway, keep the existing one, or fold the new metadata into it */
+export const dedupePolicySchema = z.enum(["insert", "skip", "merge"]);
+
 export const createMemorySchema = z
 	.object({
 		content: z.string().min(1).max(10000), // Text content to convert to embeddings
 		metadata: memoryMetadataSchema.optional(), // Rich metadata from MCP server
+		dedupe: dedupePolicySchema.default("insert"), // Near-duplicate handling, see MemoryService.createMemory
 	})
 	.describe(
 		"API request to create new memory - content will be converted to embeddings and stored via Eizen",
 	);
 
+/** Maximum number of memories accepted by a single batch request */
+export const MAX_BATCH_MEMORIES = 100;
+
+/** Batch memory creation request - many memories embedded and stored together
+POST https://api.archivenet.com/memories/batch
+Authorization: Bearer ak_1234567890abcdef (API key)
+Content-Type: application/json
+
+{
+  "memories": [
+    { "content": "User's favorite color is blue", "metadata": { "tags": ["preference"] } },
+    { "content": "User works remotely on Fridays", "metadata": { "importance": 6 } }
+  ]
+}
+*/
+export const batchCreateMemorySchema = z
+	.object({
+		memories: z.array(createMemorySchema).min(1).max(MAX_BATCH_MEMORIES),
+	})
+	.describe(
+		"API request to create many memories - contents are embedded in one model pass and stored in one contract interaction",
+	);
+
+/** Search ranking: vector similarity, BM25 keyword matching, or both fused with RRF */
+export const searchModeSchema = z.enum(["semantic", "keyword", "hybrid"]);
+
+/** Maximum number of lines accepted by a single import upload */
+export const MAX_IMPORT_ROWS = 50000;
+
+/** Import line carrying the vector it was exported with (GET /memories/export?vectors=true)
+{ "content": "User's favorite color is blue", "metadata": { "tags": ["preference"] }, "vector": [0.01, ...], "provider": "xenova", "model": "Xenova/all-MiniLM-L6-v2" }
+*/
+export const vectorImportRecordSchema = z
+	.object({
+		content: z.string().min(1).max(10000),
+		metadata: memoryMetadataSchema.optional(),
+		vector: z.array(z.number()).min(1).max(8192), // Reused when provider and model match the current embedding model
+		provider: z.string().min(1),
+		model: z.string().min(1),
+	})
+	.describe("Exported memory with its raw vector");
+
+/** Built-in ranking presets, see utils/memoryScoring.ts */
+export const scoringPresetSchema = z.enum([
+	"similarity",
+	"balanced",
+	"recent-first",
+	"important-first",
+]);
+
+/** Combined ranking of search results: a preset, optionally with its weights or half-life overridden */
+export const scoringSchema = z
+	.object({
+		preset: scoringPresetSchema.default("balanced"),
+		weights: z
+			.object({
+				similarity: z.number().min(0).max(1), // Relevance to the query
+				recency: z.number().min(0).max(1), // Exponential decay of the memory's age
+				importance: z.number().min(0).max(1), // Metadata importance (1-10)
+			})
+			.partial()
+			.optional(),
+		half_life_days: z.number().positive().max(3650).optional(), // Age at which recency has halved
+	})
+	.describe(
+		"Scoring function combining similarity, recency and importance into one score",
+	);
+
 /** Memory search request - for semantic search through user's memories
 GET https://api.archivenet.com/memories/search
 Authorization: Bearer ak_1234567890abcdef (API key)
@@ -37,9 +111,13 @@ Content-Type: application/json
 {
   "query": "favorite color preference",
   "k"(limit): 5,
+  "mode": "hybrid",
+  "rerank": true,
+  "scoring": { "preset": "recent-first", "half_life_days": 14 },
   "filters": {
     "tags": ["preference", "color"],
-    "importance_min": 5
+    "importance_min": 5,
+    "where": { "op": "eq", "key": "project", "value": "archivenet" }
   }
 }
 */
@@ -47,11 +125,89 @@ export const searchMemorySchema = z
 	.object({
 		query: z.string().min(1).max(1000), // General text
 		k: z.number().int().min(1).max(100).default(10), // number of results Agent will received
+		mode: searchModeSchema.default("semantic"), // semantic (vectors), keyword (BM25) or hybrid (both, fused)
+		rerank: z.boolean().default(false), // Re-score top candidates with a cross-encoder for better top-k precision
+		scoring: scoringSchema.optional(), // Rank by similarity combined with recency and importance
 		filters: searchFiltersSchema.optional(), // Optional search filters
 	})
 	.describe(
 		"Semantic search request - query gets converted to embeddings for Eizen.knn_search()",
 	);
 
+/** Memory listing request - browse stored memories page by page
+GET https://api.archivenet.com/memories/list?limit=20&sort=timestamp&order=desc
+Authorization: Bearer ak_1234567890abcdef (API key)
+
+Pass the previous page's `nextCursor` as `cursor` to get the next page.
+*/
+export const listMemoriesSchema = z
+	.object({
+		limit: z.number().int().min(1).max(100).default(20), // Memories per page
+		cursor: z // Opaque, from the previous page's nextCursor
+			.string()
+			.max(500)
+			.transform((value, ctx) => {
+				const cursor = decodeListCursor(value);
+				if (!cursor) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						message: "Invalid cursor",
+						fatal: true,
+					});
+					return z.NEVER;
+				}
+				return cursor;
+			})
+			.optional(),
+		sort: z.enum(["id", "timestamp", "importance"]).default("id"),
+		order: z.enum(["asc", "desc"]).default("desc"),
+		filters: searchFiltersSchema.optional(), // Same filters as search
+	})
+	.refine(
+		(data) =>
+			!data.cursor ||
+			(data.cursor.sort === data.sort && data.cursor.order === data.order),
+		{
+			message: "Cursor was issued for a different sort or order",
+			path: ["cursor"],
+		},
+	)
+	.describe(
+		"API request to list memories with cursor pagination - served from the Neon-side memory index",
+	);
+
+/** Memory update request - change content and/or metadata of an existing memory
+PATCH https://api.archivenet.com/memories/42
+Authorization: Bearer ak_1234567890abcdef (API key)
+Content-Type: application/json
+
+{
+  "content": "User's favorite color is green",
+  "metadata": {
+    "importance": 8
+  }
+}
+*/
+export const updateMemorySchema = z
+	.object({
+		content: z.string().min(1).max(10000).optional(), // New content, re-embedded when it changes
+		metadata: memoryMetadataSchema.partial().optional(), // Merged into the existing metadata
+	})
+	.refine((data) => data.content !== undefined || data.metadata !== undefined, {
+		message: "At least one of content or metadata must be provided",
+	})
+	.describe(
+		"API request to update a memory in place - the memory keeps its ID",
+	);
+
 export type CreateMemory = z.infer<typeof createMemorySchema>;
+export type BatchCreateMemory = z.infer<typeof batchCreateMemorySchema>;
+export type UpdateMemory = z.infer<typeof updateMemorySchema>;
 export type SearchMemory = z.infer<typeof searchMemorySchema>;
+export type SearchMode = z.infer<typeof searchModeSchema>;
+export type ListMemories = z.infer<typeof listMemoriesSchema>;
+export type VectorImportRecord = z.infer<typeof vectorImportRecordSchema>;
+export type ImportRecord = VectorImportRecord | CreateMemory; // One line of an NDJSON import
+export type DedupePolicy = z.infer<typeof dedupePolicySchema>;
+export type ScoringPreset = z.infer<typeof scoringPresetSchema>;
+export type Scoring = z.infer<typeof scoringSchema>;
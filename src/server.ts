@@ -19,7 +19,7 @@ import { errorHandler } from "./middlewares/errorHandler.js";
 import { EizenService } from "./services/EizenService.js";
 import { embeddingService } from "./services/EmbeddingService.js";
 import { verifyContractHashMiddleware } from "./middlewares/contract.js";
-import { verifyContractHash } from "./utils/contractHash.js";
+import { rateLimit } from "./middlewares/rateLimit.js";
 
 dotenv.config();
 
@@ -69,6 +69,10 @@ initializeServices()
 			"./routes/userSubscriptions.js"
 		);
 		const { etherScanRouter } = await import("./routes/etherscan.js");
+		const jobRoutes = await import("./routes/jobs.js");
+		const planRoutes = await import("./routes/plans.js");
+		const { importService } = await import("./services/ImportService.js");
+		const { jobService } = await import("./services/JobService.js");
 
 		const app = express();
 		const PORT = Number.parseInt(process.env.PORT || "3000", 10);
@@ -93,6 +97,14 @@ initializeServices()
 			credentials: true, // Enable cookies and authentication headers
 		};
 
+		// Client IPs (used for rate limiting) come from X-Forwarded-For behind a proxy
+		if (process.env.TRUST_PROXY) {
+			app.set(
+				"trust proxy",
+				Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY,
+			);
+		}
+
 		// Core middleware stack
 		app.use(express.json());
 		app.use(express.urlencoded({ extended: true }));
@@ -116,27 +128,109 @@ initializeServices()
 		// API route registration
 		app.use("/health", healthRoutes.default); // System health checks and monitoring
 		app.use("/admin", adminRoutes.default); // Admin-only vector database operations
-		app.use("/memories", memoryRoutes.default); // User-facing semantic memory API
-		app.use("/deploy", deploymentRoutes.default); // Smart contract deployment
-		app.use("/webhook", auth, webhookRoutes.webhook); // Payment gateway webhooks
-		app.use("/instances", auth, instanceRouter); // API key management
-		app.use("/user", userRouter); // User account management
-		app.use("/user_subscriptions", auth, userSubscriptionsRouter); // Subscription management
-		app.use("/etherscan", etherScanRouter);
+		// User-facing semantic memory API (per-instance contract)
+		app.use(
+			"/memories",
+			verifyContractHashMiddleware,
+			rateLimit("memories"),
+			memoryRoutes.default,
+		);
+		// Background job status (per-instance contract)
+		app.use(
+			"/jobs",
+			verifyContractHashMiddleware,
+			rateLimit("memories"),
+			jobRoutes.default,
+		);
+		app.use("/deploy", rateLimit("deploy"), deploymentRoutes.default); // Smart contract deployment
+		app.use("/webhook", auth, rateLimit("account"), webhookRoutes.webhook); // Payment gateway webhooks
+		app.use("/instances", auth, rateLimit("account"), instanceRouter); // API key management
+		app.use("/user", rateLimit("account"), userRouter); // User account management
+		app.use("/plans", planRoutes.default); // Public plan catalog for the pricing page
+		// Subscription management
+		app.use(
+			"/user_subscriptions",
+			auth,
+			rateLimit("account"),
+			userSubscriptionsRouter,
+		);
+		app.use("/etherscan", rateLimit("etherscan"), etherScanRouter); // Proxies our Etherscan key
 
 		// Global error handling middleware (must be last)
 		app.use(errorHandler);
 
 		// Start HTTP server with graceful error handling
-		app
+		const server = app
 			.listen(PORT, () => {
 				console.log(`ArchiveNET API server running on port ${PORT}`);
 				console.log(`Health endpoint: http://localhost:${PORT}/health`);
+
+				jobService.start(); // Run queued background jobs, e.g. async memory inserts
+
+				// Pick up memory imports interrupted by the previous shutdown
+				importService
+					.resumeInterrupted()
+					.then((count) => {
+						if (count > 0) {
+							console.log(`Resuming ${count} interrupted import job(s)`);
+						}
+					})
+					.catch((error) => {
+						console.error("Failed to resume import jobs:", error);
+					});
 			})
 			.on("error", (error) => {
 				console.error("❌ Failed to start server:", error.message);
 				throw new Error(error.message);
 			});
+
+		// Drain and close everything before exiting on rolling deploys and Ctrl+C
+		let shuttingDown = false;
+		const shutdown = async (signal: NodeJS.Signals) => {
+			if (shuttingDown) {
+				console.warn(`Received ${signal} again, exiting immediately`);
+				process.exit(1);
+			}
+			shuttingDown = true;
+
+			const timeoutMs = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 25000;
+			console.log(
+				`Received ${signal}, shutting down (deadline ${timeoutMs / 1000}s)...`,
+			);
+
+			// Stop accepting connections and let in-flight requests and jobs finish
+			const drained = Promise.all([
+				new Promise<void>((resolve) => server.close(() => resolve())),
+				jobService.stop(),
+				importService.stop(),
+			]).then(() => true);
+			server.closeIdleConnections();
+
+			let timer: NodeJS.Timeout | undefined;
+			const deadline = new Promise<boolean>((resolve) => {
+				timer = setTimeout(() => resolve(false), timeoutMs);
+			});
+
+			if (await Promise.race([drained, deadline])) {
+				console.log("In-flight requests and jobs drained");
+			} else {
+				console.warn(
+					"Shutdown deadline reached, closing remaining connections",
+				);
+				server.closeAllConnections();
+			}
+			clearTimeout(timer);
+
+			// Cached contract instances, Warp caches and Redis. The Neon driver
+			// talks HTTP per query and holds no connections to close.
+			await EizenService.globalCleanup();
+
+			console.log("Shutdown complete");
+			process.exit(0);
+		};
+
+		process.on("SIGTERM", () => void shutdown("SIGTERM"));
+		process.on("SIGINT", () => void shutdown("SIGINT"));
 	})
 	.catch((error) => {
 		console.error("Failed to initialize services:", error);
@@ -0,0 +1,94 @@
+import { SetSDK } from "hollowdb";
+
+/**
+ * HollowDB SDK that buffers writes in memory and commits them in one interaction
+ *
+ * Every Eizen insert performs several key writes (point, metadata, graph
+ * neighbours, entry point). Against Arweave each of those is a separate
+ * contract interaction. Handing this SDK to an EizenDbVector lets a whole batch
+ * of inserts run against an in-memory overlay and then be committed with a
+ * single `setMany` call.
+ *
+ * Reads are served from the pending buffer first so Eizen sees its own
+ * uncommitted writes while building the graph.
+ *
+ * Same extension approach as EizenCompatSDK in the Eizen developer guide.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new BatchingSetSDK(wallet, contractId, warp);
+ * const db = new EizenDbVector(sdk, options);
+ * for (const item of items) await db.insert(item.vector, item.metadata);
+ * await sdk.flush(); // one contract interaction
+ * ```
+ */
+export class BatchingSetSDK extends SetSDK<string> {
+	private pending = new Map<string, string>();
+
+	async get(key: string): Promise<string | null> {
+		const buffered = this.pending.get(key);
+		if (buffered !== undefined) {
+			return buffered;
+		}
+		return await super.get(key);
+	}
+
+	async getMany(keys: string[]): Promise<(string | null)[]> {
+		const missing = keys.filter((key) => !this.pending.has(key));
+		const fetched: (string | null)[] =
+			missing.length > 0 ? await super.getMany(missing) : [];
+		const fetchedByKey = new Map(
+			missing.map((key, index) => [key, fetched[index] ?? null]),
+		);
+
+		return keys.map((key) =>
+			this.pending.has(key)
+				? (this.pending.get(key) ?? null)
+				: (fetchedByKey.get(key) ?? null),
+		);
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		this.pending.set(key, value);
+	}
+
+	async setMany(keys: string[], values: string[]): Promise<void> {
+		if (keys.length !== values.length) {
+			throw new Error("Key and value counts mismatch");
+		}
+		keys.forEach((key, index) => this.pending.set(key, values[index]));
+	}
+
+	async put(key: string, value: string): Promise<void> {
+		this.pending.set(key, value);
+	}
+
+	async update(key: string, value: string): Promise<void> {
+		this.pending.set(key, value);
+	}
+
+	/** Number of key writes waiting to be committed */
+	get pendingWrites(): number {
+		return this.pending.size;
+	}
+
+	/**
+	 * Commit all buffered writes with a single setMany interaction
+	 *
+	 * The buffer is only cleared after the interaction succeeds, so a failed
+	 * flush can be retried.
+	 */
+	async flush(): Promise<void> {
+		if (this.pending.size === 0) {
+			return;
+		}
+
+		await super.setMany([...this.pending.keys()], [...this.pending.values()]);
+		this.pending.clear();
+	}
+
+	/** Drop all buffered writes without committing them */
+	discard(): void {
+		this.pending.clear();
+	}
+}
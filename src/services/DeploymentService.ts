@@ -0,0 +1,199 @@
+import {
+	type Deployment,
+	type DeploymentStatus,
+	getDeploymentByContractId,
+	updateDeployment,
+} from "../database/models/deployments.js";
+import { EizenService } from "./EizenService.js";
+
+export interface DeploymentStatusResult {
+	contractId: string;
+	status: DeploymentStatus;
+	blockHeight: number | null;
+	confirmations: number;
+	userId: string | null;
+	deployedAt: string | null;
+	confirmedAt: string | null;
+	error: string | null;
+	checkedAt: string; // When the gateway was last asked
+}
+
+// How long a status is served from cache, by status
+const CACHE_TTL_SECONDS: Record<DeploymentStatus, number> = {
+	pending: 15, // Waiting to be mined; poll often
+	bundled: 30,
+	confirmed: 300, // Only the confirmation count still changes
+	failed: 3600,
+};
+
+const cacheKey = (contractId: string) => `deploy:status:${contractId}`;
+
+/**
+ * Service class for tracking whether deployed contracts are live on Arweave
+ *
+ * Status comes from the configured Warp/Arweave gateway and is mapped to:
+ * - pending: Deployment in progress, or the transaction is waiting to be mined
+ * - bundled: Accepted by Warp's bundler but not yet visible on the gateway
+ * - confirmed: Mined, with block height and number of confirmations
+ * - failed: The deployment call failed
+ *
+ * Results are cached in Redis when REDIS_URL is configured, otherwise in
+ * process memory, and the deployments table is kept in sync.
+ *
+ * @example
+ * ```typescript
+ * const status = await deploymentService.getStatus(contractId);
+ * if (status?.status === "confirmed") {
+ *   console.log(`Live at block ${status.blockHeight}`);
+ * }
+ * ```
+ */
+export class DeploymentService {
+	private memoryCache = new Map<
+		string,
+		{ result: DeploymentStatusResult; expiresAt: number }
+	>();
+
+	/**
+	 * Get the deployment status of a contract
+	 *
+	 * @param contractId - The Arweave contract ID
+	 * @returns Promise resolving to the status, or null if neither the deployments table nor the gateway know the contract
+	 *
+	 * @throws {Error} When the gateway cannot be reached
+	 */
+	async getStatus(contractId: string): Promise<DeploymentStatusResult | null> {
+		const cached = await this.readCache(contractId);
+		if (cached) {
+			return cached;
+		}
+
+		const deployment = await getDeploymentByContractId(contractId);
+
+		// A failed deployment never reached the gateway
+		if (deployment?.status === "failed") {
+			return await this.writeCache(this.toResult(contractId, deployment));
+		}
+
+		const tx = await EizenService.getTransactionStatus(contractId);
+
+		let status: DeploymentStatus;
+		if (tx.status === 200 && tx.blockHeight !== null) {
+			status = "confirmed";
+		} else if (tx.status === 202) {
+			status = "pending";
+		} else if (tx.status === 404 && deployment) {
+			status = "bundled";
+		} else if (tx.status === 404) {
+			return null;
+		} else {
+			throw new Error(`Arweave gateway responded with status ${tx.status}`);
+		}
+
+		const updates = {
+			status,
+			blockHeight: tx.blockHeight,
+			confirmations: tx.confirmations,
+			confirmedAt:
+				status === "confirmed" ? (deployment?.confirmedAt ?? new Date()) : null,
+		};
+
+		const updated = deployment
+			? await updateDeployment(deployment.id, updates)
+			: undefined;
+
+		return await this.writeCache(
+			this.toResult(contractId, {
+				...(updated ?? deployment),
+				...updates,
+			}),
+		);
+	}
+
+	/**
+	 * Build the API result from a deployment record
+	 *
+	 * @private
+	 */
+	private toResult(
+		contractId: string,
+		deployment: Partial<Deployment> &
+			Pick<Deployment, "status" | "blockHeight" | "confirmations">,
+	): DeploymentStatusResult {
+		return {
+			contractId,
+			status: deployment.status,
+			blockHeight: deployment.blockHeight,
+			confirmations: deployment.confirmations,
+			userId: deployment.userId ?? null,
+			deployedAt: deployment.createdAt?.toISOString() ?? null,
+			confirmedAt: deployment.confirmedAt?.toISOString() ?? null,
+			error: deployment.error ?? null,
+			checkedAt: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * Read a cached status from Redis or process memory
+	 *
+	 * @private
+	 */
+	private async readCache(
+		contractId: string,
+	): Promise<DeploymentStatusResult | null> {
+		const redis = await EizenService.getSharedRedis();
+
+		if (redis) {
+			try {
+				const value = await redis.get(cacheKey(contractId));
+				return value ? (JSON.parse(value) as DeploymentStatusResult) : null;
+			} catch (error) {
+				console.warn("Deployment status cache read failed:", error);
+				return null;
+			}
+		}
+
+		const entry = this.memoryCache.get(contractId);
+		if (!entry || entry.expiresAt <= Date.now()) {
+			this.memoryCache.delete(contractId);
+			return null;
+		}
+
+		return entry.result;
+	}
+
+	/**
+	 * Cache a status for its status-specific TTL and return it
+	 *
+	 * @private
+	 */
+	private async writeCache(
+		result: DeploymentStatusResult,
+	): Promise<DeploymentStatusResult> {
+		const ttl = CACHE_TTL_SECONDS[result.status];
+		const redis = await EizenService.getSharedRedis();
+
+		if (redis) {
+			try {
+				await redis.set(
+					cacheKey(result.contractId),
+					JSON.stringify(result),
+					"EX",
+					ttl,
+				);
+			} catch (error) {
+				console.warn("Deployment status cache write failed:", error);
+			}
+			return result;
+		}
+
+		this.memoryCache.set(result.contractId, {
+			result,
+			expiresAt: Date.now() + ttl * 1000,
+		});
+
+		return result;
+	}
+}
+
+export const deploymentService = new DeploymentService();
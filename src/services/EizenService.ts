@@ -2,7 +2,21 @@ import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import { EizenDbVector } from "eizen";
 import { SetSDK } from "hollowdb";
+import type { Redis } from "ioredis";
 import { type ArweaveConfig, initializeArweave } from "../config/arweave.js";
+import {
+	type ContractStats,
+	getContractStats,
+	recordDeletes,
+	recordInserts,
+	recordMetadataBytes,
+	replaceContractStats,
+} from "../database/models/contractStats.js";
+import {
+	type Deployment,
+	createDeployment,
+	updateDeployment,
+} from "../database/models/deployments.js";
 import type {
 	InsertVector,
 	SearchVector,
@@ -14,6 +28,9 @@ import {
 	getWalletRechargeInstructions,
 	logWalletBalanceAfterOperation,
 } from "../utils/helper.js";
+import { BatchingSetSDK } from "./BatchingSetSDK.js";
+import type { EmbeddingProfile } from "./EmbeddingService.js";
+import { KeywordIndex } from "./KeywordIndex.js";
 
 export interface EizenSearchResult {
 	id: number;
@@ -21,17 +38,115 @@ export interface EizenSearchResult {
 	metadata?: VectorMetadata;
 }
 
+export interface EizenFilteredSearchResult {
+	results: EizenSearchResult[];
+	candidatesScanned: number; // Nearest neighbours examined to find the results
+	budgetExhausted: boolean; // True when the search stopped at the candidate budget
+}
+
+export interface EizenStoredVector {
+	id: number; // Stable vector ID
+	nodeId: number; // Graph node currently holding the point
+	point: VectorEmbedding;
+	metadata?: VectorMetadata;
+}
+
+export interface EizenVectorPage {
+	vectors: EizenStoredVector[]; // Live vectors in node order
+	nextNodeId: number | null; // Node to continue from, null when the scan is complete
+	nodeCount: number;
+}
+
 export interface EizenInsertResult {
 	success: boolean;
 	vectorId: number;
 	message: string;
 }
 
+export interface EizenBatchInsertItemResult {
+	index: number; // Position of the item in the request
+	success: boolean;
+	vectorId?: number;
+	error?: string;
+}
+
+export interface EizenBatchInsertResult {
+	success: boolean; // True when every item was inserted
+	inserted: number;
+	failed: number;
+	results: EizenBatchInsertItemResult[];
+	message: string;
+}
+
+export interface EizenDeleteResult {
+	success: boolean;
+	vectorId: number;
+	deletedAt: string;
+	message: string;
+}
+
+export interface EizenStats {
+	totalVectors: number; // Live vectors (inserted minus tombstoned)
+	deletedVectors: number;
+	lastInsertAt: string | null;
+	storageBytes: number; // Estimated from the serialized metadata written to the contract
+	isInitialized: boolean;
+	contractId: string;
+}
+
+export interface ArweaveTransactionStatus {
+	status: number; // Gateway HTTP status: 200 mined, 202 pending, 404 not (yet) known
+	blockHeight: number | null;
+	confirmations: number;
+}
+
+export interface EizenUpdateResult {
+	success: boolean;
+	vectorId: number; // Stable ID the caller uses
+	revisionId: number; // Graph node currently holding the point
+	message: string;
+}
+
+/**
+ * Key prefixes that EizenService itself writes into the HollowDB contract
+ *
+ * Eizen keeps its HNSW graph under its own keys. Service-level records live
+ * alongside them under distinct prefixes so they can be range-scanned with
+ * getKeys() without touching the graph.
+ *
+ * - tombstone:<nodeId> → deleted graph node, skipped by search and lookup
+ * - metadata:<nodeId>  → metadata that replaces the one stored with the node
+ * - alias:<nodeId>     → stable vector ID of a node inserted by updateVector()
+ *
+ * Contract-wide settings use fixed keys under the "config:" prefix.
+ */
+const SERVICE_KEYS = {
+	tombstone: "tombstone:",
+	metadata: "metadata:",
+	alias: "alias:",
+} as const;
+
+type ServiceKeyPrefix = (typeof SERVICE_KEYS)[keyof typeof SERVICE_KEYS];
+
+const serviceKey = (prefix: ServiceKeyPrefix, nodeId: number) =>
+	`${prefix}${nodeId}`;
+
+const EMBEDDING_PROFILE_KEY = "config:embedding"; // Provider/model/dimensions the contract was created with
+
+// Upper bound on neighbours examined by a filtered search (EIZEN_FILTER_MAX_CANDIDATES)
+const DEFAULT_FILTER_MAX_CANDIDATES = 1000;
+
+// Nodes inserted by other processes that may land after our own inserts (see locateInsertedNodes)
+const INSERT_LOOKUP_WINDOW = 64;
+
+const metadataSize = (metadata?: VectorMetadata | null) =>
+	Buffer.byteLength(JSON.stringify(metadata ?? {}), "utf8");
+
 /**
  * Service class for managing Eizen vector database operations with multi-tenant support
  *
  * This service provides a high-level interface for:
- * - Vector storage and retrieval
+ * - Vector storage, retrieval, update and deletion (tombstoning)
  * - Similarity search using HNSW (Hierarchical Navigable Small World) algorithm
  * - Database statistics and management
  * - Multi-tenant contract management
@@ -67,11 +182,26 @@ export class EizenService {
 	private sdk: SetSDK<string> | null = null; // HollowDB SDK instance for Arweave interactions
 	private contractId: string; // The contract ID for this specific instance
 	private isInitialized = false;
+	private tombstones: Set<number> | null = null; // IDs of deleted graph nodes, reloaded after EIZEN_STATE_TTL_SECONDS
+	private aliases: Map<number, number> | null = null; // Graph node → stable vector ID, reloaded after EIZEN_STATE_TTL_SECONDS
+	private stateLoadedAt = 0; // When tombstones or aliases were last read from the contract
+	private embeddingProfile: EmbeddingProfile | null = null; // Cached once read from the contract; never changes once recorded
+	private activeOperations = 0; // Public operations in flight, see track()
+	private evicted = false; // Removed from the registry; cleaned up once idle
 
 	// Shared Arweave configuration across all instances
 	private static sharedArweaveConfig: ArweaveConfig | null = null;
 	private static arweaveInitPromise: Promise<ArweaveConfig> | null = null;
 
+	// Initialized instances by contract ID, least recently used first (see forContract)
+	private static instances = new Map<
+		string,
+		{ service: Promise<EizenService>; lastUsedAt: number }
+	>();
+	private static cacheMetrics = { hits: 0, misses: 0, evictions: 0 };
+	// Tail of the queued inserts by contract ID, shared by every instance of the contract (see serializeInserts)
+	private static insertQueues = new Map<string, Promise<void>>();
+
 	/**
 	 * Creates a new EizenService instance for a specific contract
 	 *
@@ -84,11 +214,24 @@ export class EizenService {
 	}
 
 	/**
-	 * Create a new EizenService instance for a specific user contract
+	 * Get the EizenService instance for a specific user contract
 	 *
-	 * This factory method creates and initializes a service instance for a specific
+	 * This factory method returns an initialized service instance for a specific
 	 * contract ID. Each user should have their own contract for data isolation.
 	 *
+	 * Instances are kept in a bounded LRU registry and shared by all requests
+	 * for the contract, so the SDK and vector database are set up once rather
+	 * than per request. Instances idle for longer than EIZEN_CACHE_IDLE_SECONDS
+	 * (default 600), or least recently used beyond EIZEN_CACHE_SIZE (default
+	 * 100), are evicted and cleaned up once their in-flight operations have
+	 * finished. An evicted instance still held by a caller re-initializes
+	 * itself on its next use.
+	 *
+	 * Tombstones and aliases may be changed by other replicas at any time, so
+	 * the copy cached on the instance is reloaded from the contract once it is
+	 * older than EIZEN_STATE_TTL_SECONDS (default 30), and before deletes and
+	 * updates so they act on the current state.
+	 *
 	 * @param contractId - The Arweave contract ID for the user's vector database
 	 * @returns Promise resolving to an initialized EizenService instance
 	 *
@@ -105,9 +248,79 @@ export class EizenService {
 	 * ```
 	 */
 	static async forContract(contractId: string): Promise<EizenService> {
-		const service = new EizenService(contractId);
-		await service.initialize();
-		return service;
+		const now = Date.now();
+		EizenService.evictIdleInstances(now);
+
+		const cached = EizenService.instances.get(contractId);
+		if (cached) {
+			EizenService.cacheMetrics.hits++;
+
+			// Re-insert to mark as most recently used
+			EizenService.instances.delete(contractId);
+			EizenService.instances.set(contractId, { ...cached, lastUsedAt: now });
+
+			return await cached.service;
+		}
+
+		EizenService.cacheMetrics.misses++;
+
+		const instance = new EizenService(contractId);
+		const entry = {
+			service: instance.initialize().then(() => instance),
+			lastUsedAt: now,
+		};
+		EizenService.instances.set(contractId, entry);
+
+		// Drop failed initializations so the next call retries
+		entry.service.catch(() => {
+			if (EizenService.instances.get(contractId)?.service === entry.service) {
+				EizenService.instances.delete(contractId);
+			}
+		});
+
+		const maxSize = EizenService.getCacheParams().maxSize;
+		for (const key of EizenService.instances.keys()) {
+			if (EizenService.instances.size <= maxSize) {
+				break;
+			}
+			EizenService.evictInstance(key);
+		}
+
+		return await entry.service;
+	}
+
+	/**
+	 * Get hit/miss metrics of the instance registry used by forContract
+	 *
+	 * @returns Registry size, limits and counters since startup
+	 *
+	 * @example
+	 * ```typescript
+	 * const { hitRate, size } = EizenService.getCacheStats();
+	 * console.log(`${size} cached contracts, ${(hitRate * 100).toFixed(1)}% hits`);
+	 * ```
+	 */
+	static getCacheStats(): {
+		size: number;
+		maxSize: number;
+		idleTtlSeconds: number;
+		hits: number;
+		misses: number;
+		evictions: number;
+		hitRate: number;
+	} {
+		const { maxSize, idleTtlMs } = EizenService.getCacheParams();
+		const { hits, misses, evictions } = EizenService.cacheMetrics;
+
+		return {
+			size: EizenService.instances.size,
+			maxSize,
+			idleTtlSeconds: idleTtlMs / 1000,
+			hits,
+			misses,
+			evictions,
+			hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+		};
 	}
 
 	/**
@@ -116,15 +329,25 @@ export class EizenService {
 	 * This method creates a new Arweave contract for a user and returns
 	 * the contract ID for storage in Arweave.
 	 *
+	 * Every call is recorded in the deployments table: as "pending" when it
+	 * starts, "bundled" once Warp accepted the contract, or "failed".
+	 * Confirmation is tracked afterwards by DeploymentService.
+	 *
+	 * @param userId - Optional Clerk user ID the contract is deployed for
 	 * @returns Promise resolving to the new contract ID
 	 * @use const { contractId } = await EizenService.deployNewContract();
 	 */
-	static async deployNewContract(): Promise<{
+	static async deployNewContract(userId?: string): Promise<{
 		contractId: string;
 	}> {
 		// Initialize shared Arweave config
 		const arweaveConfig = await EizenService.getSharedArweaveConfig();
 
+		// Record the attempt up front so failed deployments are visible too
+		const deployment = await EizenService.trackDeployment(() =>
+			createDeployment(userId),
+		);
+
 		try {
 			console.log("Deploying new Eizen contract...");
 
@@ -202,6 +425,15 @@ Command: ${rechargeInfo.instructions}`,
 
 			console.log(`Eizen contract deployed successfully: ${contractTxId}`);
 
+			if (deployment) {
+				await EizenService.trackDeployment(() =>
+					updateDeployment(deployment.id, {
+						contractTxId,
+						status: "bundled",
+					}),
+				);
+			}
+
 			// Check wallet balance after successful deployment
 			await logWalletBalanceAfterOperation(
 				arweaveConfig.warp,
@@ -212,12 +444,72 @@ Command: ${rechargeInfo.instructions}`,
 			return { contractId: contractTxId };
 		} catch (error) {
 			console.error("Failed to deploy contract:", error);
+
+			if (deployment) {
+				await EizenService.trackDeployment(() =>
+					updateDeployment(deployment.id, {
+						status: "failed",
+						error: error instanceof Error ? error.message : "Unknown error",
+					}),
+				);
+			}
+
 			throw new Error(
 				`Failed to deploy contract: ${error instanceof Error ? error.message : "Unknown error"}`,
 			);
 		}
 	}
 
+	/**
+	 * Look up a transaction on the configured Arweave gateway
+	 *
+	 * Works for contract IDs, since a contract ID is the ID of the transaction
+	 * that deployed it.
+	 *
+	 * @param txId - Arweave transaction ID
+	 * @returns Promise resolving to the gateway status and confirmation depth
+	 */
+	static async getTransactionStatus(
+		txId: string,
+	): Promise<ArweaveTransactionStatus> {
+		const arweaveConfig = await EizenService.getSharedArweaveConfig();
+		const result =
+			await arweaveConfig.warp.arweave.transactions.getStatus(txId);
+
+		return {
+			status: result.status,
+			blockHeight: result.confirmed?.block_height ?? null,
+			confirmations: result.confirmed?.number_of_confirmations ?? 0,
+		};
+	}
+
+	/**
+	 * Get the Redis client shared with the Warp cache, if one is configured
+	 *
+	 * @returns Promise resolving to the Redis client, or undefined without REDIS_URL
+	 */
+	static async getSharedRedis(): Promise<Redis | undefined> {
+		const arweaveConfig = await EizenService.getSharedArweaveConfig();
+		return arweaveConfig.redis;
+	}
+
+	/**
+	 * Write a deployment record without letting Neon failures abort the deployment
+	 *
+	 * @private
+	 * @returns The written record, or null if the write failed
+	 */
+	private static async trackDeployment(
+		write: () => Promise<Deployment | undefined>,
+	): Promise<Deployment | null> {
+		try {
+			return (await write()) ?? null;
+		} catch (error) {
+			console.error("Failed to record deployment:", error);
+			return null;
+		}
+	}
+
 	/**
 	 * Get or initialize the shared Arweave configuration
 	 *
@@ -240,6 +532,63 @@ Command: ${rechargeInfo.instructions}`,
 		return EizenService.sharedArweaveConfig;
 	}
 
+	/**
+	 * Get instance registry limits from environment variables with defaults
+	 *
+	 * @private
+	 */
+	private static getCacheParams() {
+		return {
+			maxSize: Number(process.env.EIZEN_CACHE_SIZE) || 100, // Contracts kept initialized at once
+			idleTtlMs: (Number(process.env.EIZEN_CACHE_IDLE_SECONDS) || 600) * 1000, // Unused instances are evicted after this long
+			stateTtlMs: (Number(process.env.EIZEN_STATE_TTL_SECONDS) || 30) * 1000, // Cached tombstones and aliases are reloaded after this long
+		};
+	}
+
+	/**
+	 * Evict instances not used within the idle TTL
+	 *
+	 * The registry is ordered by last use, so the scan stops at the first
+	 * instance still in use.
+	 *
+	 * @private
+	 */
+	private static evictIdleInstances(now: number): void {
+		const { idleTtlMs } = EizenService.getCacheParams();
+
+		for (const [contractId, entry] of EizenService.instances) {
+			if (now - entry.lastUsedAt < idleTtlMs) {
+				break;
+			}
+			EizenService.evictInstance(contractId);
+		}
+	}
+
+	/**
+	 * Remove an instance from the registry and clean it up once it is idle
+	 *
+	 * @private
+	 */
+	private static evictInstance(contractId: string): void {
+		const entry = EizenService.instances.get(contractId);
+		if (!entry) {
+			return;
+		}
+
+		EizenService.instances.delete(contractId);
+		EizenService.cacheMetrics.evictions++;
+		KeywordIndex.drop(contractId);
+
+		entry.service
+			.then((service) => {
+				service.evicted = true;
+				if (service.activeOperations === 0) {
+					return service.cleanup();
+				}
+			})
+			.catch(() => {}); // Failed initializations have nothing to clean up
+	}
+
 	/**
 	 * Get HNSW parameters from environment variables with defaults
 	 *
@@ -308,6 +657,35 @@ Command: ${rechargeInfo.instructions}`,
 		}
 	}
 
+	/**
+	 * Run a public operation, keeping the instance alive until it finishes
+	 *
+	 * Drops tombstones and aliases loaded longer than EIZEN_STATE_TTL_SECONDS
+	 * ago, so deletes and updates made by other replicas are seen. An instance
+	 * evicted while operations were in flight is cleaned up when the last one
+	 * finishes.
+	 *
+	 * @private
+	 */
+	private async track<T>(operation: () => Promise<T>): Promise<T> {
+		this.activeOperations++;
+		if (
+			Date.now() - this.stateLoadedAt >=
+			EizenService.getCacheParams().stateTtlMs
+		) {
+			this.invalidateState();
+		}
+
+		try {
+			return await operation();
+		} finally {
+			this.activeOperations--;
+			if (this.evicted && this.activeOperations === 0) {
+				await this.cleanup();
+			}
+		}
+	}
+
 	/**
 	 * Ensures the service is fully initialized before performing operations
 	 *
@@ -333,6 +711,7 @@ Command: ${rechargeInfo.instructions}`,
 	 *
 	 * The vector will be added to the HNSW index for future similarity searches.
 	 * Each vector must have consistent dimensionality with existing vectors in the database.
+	 * Inserts into one contract run one at a time (see serializeInserts).
 	 *
 	 * @param data - The vector data and metadata to insert
 	 * @param data.vector - The numerical vector representation (e.g., embeddings)
@@ -361,48 +740,197 @@ Command: ${rechargeInfo.instructions}`,
 	 * @throws {Error} When the service is not initialized or insertion fails
 	 */
 	async insertVector(data: InsertVector): Promise<EizenInsertResult> {
-		await this.ensureInitialized();
+		return this.track(async () => {
+			await this.ensureInitialized();
 
-		if (!this.vectorDb) {
-			throw new Error("Vector database not initialized");
-		}
+			if (!this.vectorDb) {
+				throw new Error("Vector database not initialized");
+			}
 
-		try {
-			console.log(`Inserting vector with ${data.vector.length} dimensions`);
+			try {
+				console.log(`Inserting vector with ${data.vector.length} dimensions`);
 
-			// Get current vector count to estimate the next ID
-			// TODO: implement getVectorCount() with neonDB later
-			const currentVectorCount = await this.getVectorCount();
+				const vectorDb = this.vectorDb;
+				const vectorId = await this.serializeInserts(async () => {
+					const expectedId = await this.probeNodeCount();
 
-			// Insert vector into the HNSW index with associated metadata
-			await this.vectorDb.insert(data.vector, data.metadata);
+					// Insert vector into the HNSW index with associated metadata
+					await vectorDb.insert(data.vector, data.metadata);
 
-			// Estimate the vector ID
-			const vectorId = currentVectorCount; //NOTE: getVectorCount() is not implemented yet. so VectorID is 0 for every insert.
+					// Eizen does not return the ID it assigned, so read it back from the contract
+					return await this.locateInsertedNodes([data.vector], expectedId);
+				});
+				await this.updateCounters(() =>
+					recordInserts(this.contractId, 1, metadataSize(data.metadata)),
+				);
 
-			console.log(
-				`Vector inserted successfully with estimated ID: ${vectorId}`,
-			);
+				console.log(`Vector inserted successfully with ID: ${vectorId}`);
 
-			// Check wallet balance after successful insert
-			const arweaveConfig = await EizenService.getSharedArweaveConfig();
-			await logWalletBalanceAfterOperation(
-				arweaveConfig.warp,
-				arweaveConfig.wallet,
-				"insert",
+				// Check wallet balance after successful insert
+				const arweaveConfig = await EizenService.getSharedArweaveConfig();
+				await logWalletBalanceAfterOperation(
+					arweaveConfig.warp,
+					arweaveConfig.wallet,
+					"insert",
+				);
+
+				return {
+					success: true,
+					vectorId,
+					message: `Vector inserted successfully with ID: ${vectorId}`,
+				};
+			} catch (error) {
+				console.error("Failed to insert vector:", error);
+				throw new Error(
+					`Failed to insert vector: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+		});
+	}
+
+	/**
+	 * Insert many vectors with a single contract interaction
+	 *
+	 * The vectors are inserted one by one into an HNSW index backed by a
+	 * BatchingSetSDK, so the graph is built exactly as with insertVector(), but
+	 * all resulting key writes are committed together with one `setMany`.
+	 *
+	 * Items whose dimensionality does not match the rest of the batch are
+	 * rejected individually. If the graph build or the final commit fails,
+	 * nothing is written and every item is reported as failed. Like
+	 * insertVector(), the batch waits for earlier inserts into the contract
+	 * and holds back later ones until it is committed.
+	 *
+	 * @param items - The vectors and metadata to insert, in order
+	 * @returns Promise resolving to per-item results with assigned vector IDs
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await eizenService.insertVectors([
+	 *   { vector: [0.1, 0.2, 0.3], metadata: { content: "first" } },
+	 *   { vector: [0.4, 0.5, 0.6], metadata: { content: "second" } },
+	 * ]);
+	 * console.log(`${result.inserted} inserted, ${result.failed} failed`);
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized
+	 */
+	async insertVectors(items: InsertVector[]): Promise<EizenBatchInsertResult> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			if (!this.vectorDb) {
+				throw new Error("Vector database not initialized");
+			}
+
+			console.log(`Inserting batch of ${items.length} vectors`);
+
+			const results: EizenBatchInsertItemResult[] = [];
+			const accepted: { index: number; item: InsertVector }[] = [];
+
+			// The first vector defines the batch dimensionality
+			const dimensions = items[0]?.vector.length;
+			items.forEach((item, index) => {
+				if (item.vector.length !== dimensions) {
+					results.push({
+						index,
+						success: false,
+						error: `Expected ${dimensions} dimensions, got ${item.vector.length}`,
+					});
+				} else {
+					accepted.push({ index, item });
+				}
+			});
+
+			if (accepted.length > 0) {
+				const arweaveConfig = await EizenService.getSharedArweaveConfig();
+
+				// Builds the graph on the committed state, so no other insert may commit meanwhile
+				const firstVectorId = await this.serializeInserts(async () => {
+					const batchSdk = new BatchingSetSDK(
+						arweaveConfig.wallet,
+						this.contractId,
+						arweaveConfig.warp,
+					);
+					const batchDb = new EizenDbVector<VectorMetadata>(
+						batchSdk,
+						EizenService.getHnswParams(),
+					);
+
+					try {
+						const expectedId = await this.probeNodeCount();
+						for (const { item } of accepted) {
+							await batchDb.insert(item.vector, item.metadata);
+						}
+
+						console.log(
+							`Committing ${batchSdk.pendingWrites} key writes in one interaction`,
+						);
+						await batchSdk.flush();
+
+						// The batch is stored; not finding its IDs must not report it as failed
+						return await this.locateInsertedNodes(
+							accepted.map(({ item }) => item.vector),
+							expectedId,
+						);
+					} catch (error) {
+						// A partially built graph must never be committed
+						batchSdk.discard();
+						console.error("Failed to insert vector batch:", error);
+
+						const message =
+							error instanceof Error ? error.message : "Unknown error";
+						for (const { index } of accepted) {
+							results.push({ index, success: false, error: message });
+						}
+						return null;
+					}
+				});
+
+				if (firstVectorId !== null) {
+					await this.updateCounters(() =>
+						recordInserts(
+							this.contractId,
+							accepted.length,
+							accepted.reduce(
+								(bytes, { item }) => bytes + metadataSize(item.metadata),
+								0,
+							),
+						),
+					);
+
+					accepted.forEach(({ index }, position) => {
+						results.push({
+							index,
+							success: true,
+							vectorId: firstVectorId + position,
+						});
+					});
+
+					await logWalletBalanceAfterOperation(
+						arweaveConfig.warp,
+						arweaveConfig.wallet,
+						"batch insert",
+					);
+				}
+			}
+
+			results.sort((a, b) => a.index - b.index);
+			const inserted = results.filter((result) => result.success).length;
+			const failed = results.length - inserted;
+
+			console.log(
+				`Batch insert finished: ${inserted} inserted, ${failed} failed`,
 			);
 
 			return {
-				success: true,
-				vectorId, // For now it will always return 0
-				message: `Vector inserted successfully with estimated ID: ${vectorId}`,
+				success: failed === 0,
+				inserted,
+				failed,
+				results,
+				message: `Inserted ${inserted} of ${items.length} vectors`,
 			};
-		} catch (error) {
-			console.error("Failed to insert vector:", error);
-			throw new Error(
-				`Failed to insert vector: ${error instanceof Error ? error.message : "Unknown error"}`,
-			);
-		}
+		});
 	}
 
 	/**
@@ -438,32 +966,86 @@ Command: ${rechargeInfo.instructions}`,
 	 * @throws {Error} When the service is not initialized or search fails
 	 */
 	async searchVectors(data: SearchVector): Promise<EizenSearchResult[]> {
-		await this.ensureInitialized();
+		return this.track(async () => {
+			await this.ensureInitialized();
 
-		if (!this.vectorDb) {
-			throw new Error("Vector database not initialized");
-		}
+			if (!this.vectorDb || !this.sdk) {
+				throw new Error("Vector database not initialized");
+			}
 
-		try {
-			console.log(`Searching for ${data.k} nearest neighbors`);
+			try {
+				console.log(`Searching for ${data.k} nearest neighbors`);
 
-			// Perform k-nearest neighbor search using HNSW algorithm
-			const results = await this.vectorDb.knn_search(data.query, data.k);
+				const { results } = await this.collectNeighbours(data.query, data.k);
 
-			console.log(`Found ${results.length} similar vectors`);
+				console.log(`Found ${results.length} similar vectors`);
 
-			// Transform results to match our interface
-			return results.map((result) => ({
-				id: result.id,
-				distance: result.distance,
-				metadata: result.metadata || undefined,
-			}));
-		} catch (error) {
-			console.error("Failed to search vectors:", error);
-			throw new Error(
-				`Failed to search vectors: ${error instanceof Error ? error.message : "Unknown error"}`,
-			);
-		}
+				return results;
+			} catch (error) {
+				console.error("Failed to search vectors:", error);
+				throw new Error(
+					`Failed to search vectors: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+		});
+	}
+
+	/**
+	 * Search for the k most similar vectors whose metadata passes a filter
+	 *
+	 * Filtering after a plain k-NN search can return fewer than k results (or
+	 * none) even when many vectors match. This method keeps widening the
+	 * search instead: it starts by over-fetching 4×k neighbours and doubles
+	 * the window until k vectors pass the filter, the graph runs out of
+	 * vectors, or the candidate budget (EIZEN_FILTER_MAX_CANDIDATES, default
+	 * 1000) is reached.
+	 *
+	 * @param data - Search parameters
+	 * @param data.query - The query vector to find similar vectors for
+	 * @param data.k - Number of matching neighbours to return
+	 * @param filter - Optional predicate applied to each candidate's current metadata
+	 * @returns Promise resolving to the matching vectors and how many candidates were examined
+	 *
+	 * @example
+	 * ```typescript
+	 * const { results, candidatesScanned } = await eizenService.searchVectorsFiltered(
+	 *   { query: [0.1, 0.2, 0.3], k: 5 },
+	 *   (metadata) => (metadata?.tags as string[] | undefined)?.includes("work") ?? false,
+	 * );
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or search fails
+	 */
+	async searchVectorsFiltered(
+		data: SearchVector,
+		filter?: (metadata?: VectorMetadata) => boolean,
+	): Promise<EizenFilteredSearchResult> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			if (!this.vectorDb || !this.sdk) {
+				throw new Error("Vector database not initialized");
+			}
+
+			try {
+				console.log(
+					`Searching for ${data.k} nearest neighbors matching filter`,
+				);
+
+				const result = await this.collectNeighbours(data.query, data.k, filter);
+
+				console.log(
+					`Found ${result.results.length} matching vectors after scanning ${result.candidatesScanned} candidates`,
+				);
+
+				return result;
+			} catch (error) {
+				console.error("Failed to search vectors:", error);
+				throw new Error(
+					`Failed to search vectors: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+		});
 	}
 
 	/**
@@ -492,38 +1074,801 @@ Command: ${rechargeInfo.instructions}`,
 	async getVector(
 		vectorId: number,
 	): Promise<{ point: VectorEmbedding; metadata?: VectorMetadata } | null> {
-		await this.ensureInitialized();
+		return this.track(async () => {
+			await this.ensureInitialized();
 
-		if (!this.vectorDb) {
-			throw new Error("Vector database not initialized");
-		}
+			if (!this.vectorDb || !this.sdk) {
+				throw new Error("Vector database not initialized");
+			}
 
-		try {
-			console.log(`Retrieving vector with ID: ${vectorId}`);
+			try {
+				console.log(`Retrieving vector with ID: ${vectorId}`);
 
-			// Fetch vector data by ID from the database
-			const result = await this.vectorDb.get_vector(vectorId);
+				// Updated vectors live on a newer graph node
+				const nodeId = await this.resolveNodeId(vectorId);
 
-			if (result) {
-				console.log(`Vector ${vectorId} retrieved successfully`);
-				return {
-					point: result.point,
-					metadata: result.metadata || undefined,
-				};
-			}
+				// Deleted vectors are still in the graph but must not be served
+				if (await this.isTombstoned(nodeId)) {
+					console.log(`Vector ${vectorId} has been deleted`);
+					return null;
+				}
 
-			console.log(`Vector ${vectorId} not found`);
-			return null;
-		} catch (error) {
-			console.error(`Failed to retrieve vector ${vectorId}:`, error);
-			throw new Error(
-				`Failed to retrieve vector: ${error instanceof Error ? error.message : "Unknown error"}`,
-			);
-		}
-	}
+				// Fetch vector data by ID from the database
+				const result = await this.vectorDb.get_vector(nodeId);
 
-	// ============================================================================
-	// Support Functions
+				if (result) {
+					const overrides = await this.getMetadataOverrides([nodeId]);
+
+					console.log(`Vector ${vectorId} retrieved successfully`);
+					return {
+						point: result.point,
+						metadata: overrides.get(nodeId) ?? (result.metadata || undefined),
+					};
+				}
+
+				console.log(`Vector ${vectorId} not found`);
+				return null;
+			} catch (error) {
+				console.error(`Failed to retrieve vector ${vectorId}:`, error);
+				throw new Error(
+					`Failed to retrieve vector: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+		});
+	}
+
+	/**
+	 * Delete a vector by tombstoning it
+	 *
+	 * HNSW graphs cannot drop a node without breaking the neighbour lists that
+	 * point at it, so the vector stays in the graph and keeps routing searches.
+	 * A tombstone record is written to the contract instead, and
+	 * searchVectors()/getVector() skip tombstoned IDs from then on.
+	 *
+	 * The original point and metadata remain in contract state until a
+	 * compaction pass re-inserts the live vectors (see listTombstones()) into
+	 * a fresh contract.
+	 *
+	 * @param vectorId - The unique identifier of the vector to delete
+	 * @returns Promise resolving to the deletion result, or null if the vector does not exist or is already deleted
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await eizenService.deleteVector(123);
+	 * if (!result) {
+	 *   console.log('Vector not found');
+	 * }
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or the contract write fails
+	 */
+	async deleteVector(vectorId: number): Promise<EizenDeleteResult | null> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			if (!this.vectorDb || !this.sdk) {
+				throw new Error("Vector database not initialized");
+			}
+
+			try {
+				console.log(`Deleting vector with ID: ${vectorId}`);
+
+				// Decide on the contract's current tombstones and aliases, not a cached copy
+				this.invalidateState();
+				const existing = await this.getVector(vectorId);
+				if (!existing) {
+					console.log(`Vector ${vectorId} not found or already deleted`);
+					return null;
+				}
+
+				const deletedAt = new Date().toISOString();
+				await this.tombstoneNode(await this.resolveNodeId(vectorId), deletedAt);
+
+				console.log(`Vector ${vectorId} tombstoned successfully`);
+
+				// Check wallet balance after successful delete
+				const arweaveConfig = await EizenService.getSharedArweaveConfig();
+				await logWalletBalanceAfterOperation(
+					arweaveConfig.warp,
+					arweaveConfig.wallet,
+					"delete",
+				);
+
+				return {
+					success: true,
+					vectorId,
+					deletedAt,
+					message: `Vector ${vectorId} deleted successfully`,
+				};
+			} catch (error) {
+				console.error(`Failed to delete vector ${vectorId}:`, error);
+				throw new Error(
+					`Failed to delete vector: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+		});
+	}
+
+	/**
+	 * Update a vector's metadata and/or point while keeping its ID
+	 *
+	 * Metadata-only updates write a replacement metadata record through the
+	 * contract's `update` operation; the graph is untouched.
+	 *
+	 * A new point cannot be moved inside an HNSW graph, so point updates insert
+	 * a new node carrying the new metadata, tombstone the old node and record
+	 * an alias so searches and lookups keep reporting the original vector ID.
+	 *
+	 * @param vectorId - The stable ID of the vector to update
+	 * @param data - Replacement metadata, plus the new point if it changed
+	 * @param data.vector - Optional new vector (e.g. re-embedded content)
+	 * @param data.metadata - Full metadata that replaces the current one
+	 * @returns Promise resolving to the update result, or null if the vector does not exist or was deleted
+	 *
+	 * @example
+	 * ```typescript
+	 * await eizenService.updateVector(123, {
+	 *   metadata: { content: "User's favorite color is green", importance: 8 }
+	 * });
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or the contract write fails
+	 */
+	async updateVector(
+		vectorId: number,
+		data: { vector?: VectorEmbedding; metadata: VectorMetadata },
+	): Promise<EizenUpdateResult | null> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			if (!this.vectorDb || !this.sdk) {
+				throw new Error("Vector database not initialized");
+			}
+
+			try {
+				console.log(`Updating vector with ID: ${vectorId}`);
+
+				// Decide on the contract's current tombstones and aliases, not a cached copy
+				this.invalidateState();
+				const existing = await this.getVector(vectorId);
+				if (!existing) {
+					console.log(`Vector ${vectorId} not found or already deleted`);
+					return null;
+				}
+
+				const currentNodeId = await this.resolveNodeId(vectorId);
+
+				if (!data.vector) {
+					const serialized = JSON.stringify(data.metadata ?? {});
+					await this.sdk.update(
+						serviceKey(SERVICE_KEYS.metadata, currentNodeId),
+						serialized,
+					);
+					await this.updateCounters(() =>
+						recordMetadataBytes(
+							this.contractId,
+							Buffer.byteLength(serialized, "utf8"),
+						),
+					);
+
+					console.log(`Vector ${vectorId} metadata updated successfully`);
+
+					return {
+						success: true,
+						vectorId,
+						revisionId: currentNodeId,
+						message: `Vector ${vectorId} metadata updated successfully`,
+					};
+				}
+
+				// Insert the replacement node first so a failure leaves the old one live.
+				// Its node ID is read back from the contract, never guessed
+				const inserted = await this.insertVector({
+					vector: data.vector,
+					metadata: data.metadata,
+				});
+				if (inserted.vectorId <= currentNodeId) {
+					throw new Error(
+						`Replacement node ${inserted.vectorId} is not newer than node ${currentNodeId}`,
+					);
+				}
+
+				await this.sdk.set(
+					serviceKey(SERVICE_KEYS.alias, inserted.vectorId),
+					String(vectorId),
+				);
+				const aliases = await this.getAliases();
+				aliases.set(inserted.vectorId, vectorId);
+
+				await this.tombstoneNode(currentNodeId, new Date().toISOString());
+
+				console.log(
+					`Vector ${vectorId} re-indexed from node ${currentNodeId} to node ${inserted.vectorId}`,
+				);
+
+				return {
+					success: true,
+					vectorId,
+					revisionId: inserted.vectorId,
+					message: `Vector ${vectorId} updated successfully`,
+				};
+			} catch (error) {
+				console.error(`Failed to update vector ${vectorId}:`, error);
+				throw new Error(
+					`Failed to update vector: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+		});
+	}
+
+	/**
+	 * Get the embedding profile recorded for this contract
+	 *
+	 * The profile identifies the vector space (provider, model, dimensions)
+	 * of every vector stored in the contract.
+	 *
+	 * @returns Promise resolving to the recorded profile, or null if none was recorded yet
+	 */
+	async getEmbeddingProfile(): Promise<EmbeddingProfile | null> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			if (this.embeddingProfile) {
+				return this.embeddingProfile;
+			}
+
+			if (!this.sdk) {
+				throw new Error("HollowDB SDK not initialized");
+			}
+
+			const value: string | null = await this.sdk.get(EMBEDDING_PROFILE_KEY);
+			this.embeddingProfile = value
+				? (JSON.parse(value) as EmbeddingProfile)
+				: null;
+
+			return this.embeddingProfile;
+		});
+	}
+
+	/**
+	 * Record the embedding profile for this contract
+	 *
+	 * Should only be called once, before or with the first insert.
+	 *
+	 * @param profile - Provider, model and dimensions of the stored vectors
+	 */
+	async setEmbeddingProfile(profile: EmbeddingProfile): Promise<void> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			if (!this.sdk) {
+				throw new Error("HollowDB SDK not initialized");
+			}
+
+			await this.sdk.set(
+				EMBEDDING_PROFILE_KEY,
+				JSON.stringify({ ...profile, recordedAt: new Date().toISOString() }),
+			);
+			this.embeddingProfile = profile;
+
+			console.log(
+				`Embedding profile recorded for contract ${this.contractId}: ${profile.provider}/${profile.model} (${profile.dimensions}d)`,
+			);
+		});
+	}
+
+	/**
+	 * Read the live vectors stored in a range of graph nodes
+	 *
+	 * Walks node IDs in insertion order, skipping tombstoned nodes, so that
+	 * derived data (keyword indexes, exports) can be rebuilt from contract
+	 * state. Vectors are reported under their stable ID with their current
+	 * metadata.
+	 *
+	 * @param fromNodeId - First graph node to read (default: 0)
+	 * @param limit - Maximum number of nodes to read, tombstoned ones included (default: 100)
+	 * @returns Promise resolving to the live vectors and where to continue
+	 *
+	 * @example
+	 * ```typescript
+	 * let next: number | null = 0;
+	 * while (next !== null) {
+	 *   const page = await eizenService.scanVectors(next);
+	 *   page.vectors.forEach((vector) => console.log(vector.id, vector.metadata));
+	 *   next = page.nextNodeId;
+	 * }
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or a read fails
+	 */
+	async scanVectors(fromNodeId = 0, limit = 100): Promise<EizenVectorPage> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			if (!this.vectorDb || !this.sdk) {
+				throw new Error("Vector database not initialized");
+			}
+
+			const nodeCount = await this.getVectorCount();
+			const tombstones = await this.getTombstones();
+			const aliases = await this.getAliases();
+
+			const end = Math.min(fromNodeId + limit, nodeCount);
+			const nodeIds: number[] = [];
+			for (let nodeId = fromNodeId; nodeId < end; nodeId++) {
+				if (!tombstones.has(nodeId)) {
+					nodeIds.push(nodeId);
+				}
+			}
+
+			const overrides = await this.getMetadataOverrides(nodeIds);
+			const vectors: EizenStoredVector[] = [];
+			for (const nodeId of nodeIds) {
+				const result = await this.vectorDb.get_vector(nodeId);
+				if (!result) {
+					continue;
+				}
+
+				vectors.push({
+					id: aliases.get(nodeId) ?? nodeId,
+					nodeId,
+					point: result.point,
+					metadata: overrides.get(nodeId) ?? (result.metadata || undefined),
+				});
+			}
+
+			return {
+				vectors,
+				nextNodeId: end < nodeCount ? end : null,
+				nodeCount,
+			};
+		});
+	}
+
+	/**
+	 * List the IDs of all tombstoned (deleted or superseded) graph nodes
+	 *
+	 * Intended for compaction: every node ID that is not in this list is
+	 * live and should be carried over when rebuilding the index.
+	 *
+	 * @returns Promise resolving to tombstoned node IDs in ascending order
+	 */
+	async listTombstones(): Promise<number[]> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			const tombstones = await this.getTombstones();
+			return [...tombstones].sort((a, b) => a - b);
+		});
+	}
+
+	/**
+	 * Run k-NN searches with a growing window until k live results pass the filter
+	 *
+	 * Tombstoned vectors stay in the graph, so every window is widened by the
+	 * number of tombstones. Without a filter a single search is enough.
+	 *
+	 * @private
+	 */
+	private async collectNeighbours(
+		query: VectorEmbedding,
+		k: number,
+		filter?: (metadata?: VectorMetadata) => boolean,
+	): Promise<EizenFilteredSearchResult> {
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		const tombstones = await this.getTombstones();
+		const aliases = await this.getAliases();
+		const maxCandidates = Math.max(
+			Number(process.env.EIZEN_FILTER_MAX_CANDIDATES) ||
+				DEFAULT_FILTER_MAX_CANDIDATES,
+			k + tombstones.size,
+		);
+
+		let window = filter ? k * 4 : k;
+		for (;;) {
+			const fetchK = Math.min(window + tombstones.size, maxCandidates);
+
+			// Perform k-nearest neighbor search using HNSW algorithm
+			const candidates = await this.vectorDb.knn_search(query, fetchK);
+			const live = candidates.filter(
+				(candidate) => !tombstones.has(candidate.id),
+			);
+
+			// Apply metadata written by updateVector() before filtering
+			const overrides = await this.getMetadataOverrides(
+				live.map((candidate) => candidate.id),
+			);
+			const results: EizenSearchResult[] = [];
+			for (const candidate of live) {
+				const metadata =
+					overrides.get(candidate.id) ?? (candidate.metadata || undefined);
+				if (filter && !filter(metadata)) {
+					continue;
+				}
+
+				// Map replacement nodes back to the stable vector ID the caller knows
+				results.push({
+					id: aliases.get(candidate.id) ?? candidate.id,
+					distance: candidate.distance,
+					metadata,
+				});
+				if (results.length === k) {
+					break;
+				}
+			}
+
+			const graphExhausted = candidates.length < fetchK;
+			const budgetExhausted = !graphExhausted && fetchK >= maxCandidates;
+
+			if (results.length === k || graphExhausted || budgetExhausted) {
+				return {
+					results,
+					candidatesScanned: candidates.length,
+					budgetExhausted: results.length < k && budgetExhausted,
+				};
+			}
+
+			window *= 2;
+		}
+	}
+
+	/**
+	 * Write a tombstone record for a graph node and update the local cache
+	 *
+	 * @private
+	 */
+	private async tombstoneNode(
+		nodeId: number,
+		deletedAt: string,
+	): Promise<void> {
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		await this.sdk.set(
+			serviceKey(SERVICE_KEYS.tombstone, nodeId),
+			JSON.stringify({ deletedAt }),
+		);
+
+		const tombstones = await this.getTombstones();
+		tombstones.add(nodeId);
+
+		await this.updateCounters(() => recordDeletes(this.contractId, 1));
+	}
+
+	/**
+	 * Apply a counter update in Neon after a successful contract write
+	 *
+	 * The contract is the source of truth and has already been written, so a
+	 * failed counter update is logged rather than failing the operation; the
+	 * counters can be repaired with reconcileStats().
+	 *
+	 * @private
+	 * @returns The update's result, or null if it failed
+	 */
+	private async updateCounters<T>(update: () => Promise<T>): Promise<T | null> {
+		try {
+			return await update();
+		} catch (error) {
+			console.error(
+				`Failed to update vector counters for contract ${this.contractId}, run reconcileStats() to repair:`,
+				error,
+			);
+			return null;
+		}
+	}
+
+	/**
+	 * Run an insert after every insert queued before it for this contract
+	 *
+	 * Eizen assigns node IDs from the graph it reads, so inserts that overlap
+	 * (e.g. a batch building on an overlay while a single insert commits)
+	 * would reuse the same node IDs and corrupt the graph. The queue is kept
+	 * per contract ID rather than per instance, so it also holds across
+	 * instances replaced after eviction.
+	 *
+	 * @private
+	 */
+	private async serializeInserts<T>(insert: () => Promise<T>): Promise<T> {
+		const previous =
+			EizenService.insertQueues.get(this.contractId) ?? Promise.resolve();
+		const run = previous.then(insert);
+		const tail = run.then(
+			() => {},
+			() => {},
+		);
+		EizenService.insertQueues.set(this.contractId, tail);
+
+		try {
+			return await run;
+		} finally {
+			if (EizenService.insertQueues.get(this.contractId) === tail) {
+				EizenService.insertQueues.delete(this.contractId);
+			}
+		}
+	}
+
+	/**
+	 * Find the node IDs Eizen assigned to vectors just written to the contract
+	 *
+	 * Eizen assigns IDs sequentially but does not return them, so the IDs are
+	 * read back from contract state: the newest nodes are searched for a run
+	 * of consecutive nodes holding the inserted points, in order. Other
+	 * processes may have inserted into the contract since, so up to
+	 * INSERT_LOOKUP_WINDOW newer nodes are skipped.
+	 *
+	 * The vectors are already committed when this runs, so if they cannot be
+	 * found the node count probed before the write is trusted instead of
+	 * failing the insert.
+	 *
+	 * @private
+	 * @param points - The inserted vectors, in insertion order
+	 * @param expectedFirstId - The node count probed right before the write
+	 * @returns The ID of the first inserted node
+	 */
+	private async locateInsertedNodes(
+		points: VectorEmbedding[],
+		expectedFirstId: number,
+	): Promise<number> {
+		try {
+			return await this.findInsertedNodes(points);
+		} catch (error) {
+			console.warn(
+				`Could not read back inserted node IDs in contract ${this.contractId}, assuming ${expectedFirstId}:`,
+				error,
+			);
+			return expectedFirstId;
+		}
+	}
+
+	/**
+	 * Search the newest nodes for the inserted vectors, see locateInsertedNodes
+	 *
+	 * @private
+	 * @throws {Error} If the inserted vectors are not found in the contract
+	 */
+	private async findInsertedNodes(points: VectorEmbedding[]): Promise<number> {
+		const nodeCount = await this.probeNodeCount();
+		const stored = new Map<number, number[] | null>();
+
+		const matches = async (nodeId: number, point: VectorEmbedding) => {
+			if (!stored.has(nodeId)) {
+				const result = await this.vectorDb?.get_vector(nodeId);
+				stored.set(nodeId, result?.point ?? null);
+			}
+			const candidate = stored.get(nodeId);
+			return (
+				!!candidate &&
+				candidate.length === point.length &&
+				candidate.every(
+					(value, i) => Math.fround(value) === Math.fround(point[i]),
+				)
+			);
+		};
+
+		const lastFirstId = nodeCount - points.length;
+		for (
+			let firstId = lastFirstId;
+			firstId >= Math.max(0, lastFirstId - INSERT_LOOKUP_WINDOW);
+			firstId--
+		) {
+			let found = true;
+			for (let offset = points.length - 1; offset >= 0 && found; offset--) {
+				found = await matches(firstId + offset, points[offset]);
+			}
+			if (found) {
+				return firstId;
+			}
+		}
+
+		throw new Error(
+			`Inserted vectors not found among the last ${INSERT_LOOKUP_WINDOW + points.length} nodes of contract ${this.contractId}`,
+		);
+	}
+
+	/**
+	 * Count the graph nodes stored in the contract
+	 *
+	 * Eizen assigns node IDs sequentially from 0 and never removes nodes, so
+	 * the count is the first ID whose vector cannot be read. It is found with
+	 * an exponential then binary search over get_vector(), i.e. O(log n) reads.
+	 *
+	 * @private
+	 */
+	private async probeNodeCount(): Promise<number> {
+		const exists = async (nodeId: number): Promise<boolean> => {
+			try {
+				const result = await this.vectorDb?.get_vector(nodeId);
+				return Boolean(result?.point?.length);
+			} catch {
+				return false;
+			}
+		};
+
+		if (!(await exists(0))) {
+			return 0;
+		}
+
+		// Find an upper bound, then narrow down to the first missing ID
+		let low = 0; // Known to exist
+		let high = 1;
+		while (await exists(high)) {
+			low = high;
+			high *= 2;
+		}
+
+		while (high - low > 1) {
+			const mid = Math.floor((low + high) / 2);
+			if (await exists(mid)) {
+				low = mid;
+			} else {
+				high = mid;
+			}
+		}
+
+		return high;
+	}
+
+	/**
+	 * List the service keys stored under a prefix
+	 *
+	 * @private
+	 */
+	private async scanServiceKeys(prefix: ServiceKeyPrefix): Promise<string[]> {
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		// Range scan over the prefix (";" sorts right after ":")
+		return await this.sdk.getKeys({
+			gte: prefix,
+			lt: `${prefix.slice(0, -1)};`,
+		});
+	}
+
+	/**
+	 * Drop the cached tombstones and aliases so the next read reloads them
+	 *
+	 * @private
+	 */
+	private invalidateState(): void {
+		this.tombstones = null;
+		this.aliases = null;
+		this.stateLoadedAt = 0;
+	}
+
+	/**
+	 * Load the tombstone set from the contract, cached until it expires (see track())
+	 *
+	 * @private
+	 */
+	private async getTombstones(): Promise<Set<number>> {
+		if (this.tombstones) {
+			return this.tombstones;
+		}
+
+		const keys = await this.scanServiceKeys(SERVICE_KEYS.tombstone);
+
+		this.stateLoadedAt ||= Date.now();
+		this.tombstones = new Set(
+			keys
+				.map((key) =>
+					Number.parseInt(key.slice(SERVICE_KEYS.tombstone.length), 10),
+				)
+				.filter((id) => !Number.isNaN(id)),
+		);
+
+		return this.tombstones;
+	}
+
+	/**
+	 * Load the node → stable vector ID aliases from the contract, cached until they expire (see track())
+	 *
+	 * A replacement node is always newer than the vector it replaces, so
+	 * aliases pointing a node at the same or a higher vector ID are invalid
+	 * and ignored. Such aliases were written by content updates that used a
+	 * wrong node ID (e.g. `alias:0`) and would otherwise hide that node's own
+	 * memory.
+	 *
+	 * @private
+	 */
+	private async getAliases(): Promise<Map<number, number>> {
+		if (this.aliases) {
+			return this.aliases;
+		}
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		const keys = await this.scanServiceKeys(SERVICE_KEYS.alias);
+		const values: (string | null)[] =
+			keys.length > 0 ? await this.sdk.getMany(keys) : [];
+
+		this.stateLoadedAt ||= Date.now();
+		this.aliases = new Map();
+		keys.forEach((key, index) => {
+			const nodeId = Number.parseInt(key.slice(SERVICE_KEYS.alias.length), 10);
+			const vectorId = Number.parseInt(values[index] ?? "", 10);
+			if (Number.isNaN(nodeId) || Number.isNaN(vectorId)) {
+				return;
+			}
+			if (nodeId <= vectorId) {
+				console.warn(
+					`Ignoring invalid alias of node ${nodeId} to vector ${vectorId} in contract ${this.contractId}`,
+				);
+				return;
+			}
+			this.aliases?.set(nodeId, vectorId);
+		});
+
+		return this.aliases;
+	}
+
+	/**
+	 * Resolve a stable vector ID to the graph node currently holding it
+	 *
+	 * Vectors that were never re-indexed resolve to themselves.
+	 *
+	 * @private
+	 */
+	private async resolveNodeId(vectorId: number): Promise<number> {
+		const aliases = await this.getAliases();
+
+		let nodeId = vectorId;
+		for (const [aliasNodeId, aliasVectorId] of aliases) {
+			if (aliasVectorId === vectorId && aliasNodeId > nodeId) {
+				nodeId = aliasNodeId;
+			}
+		}
+
+		return nodeId;
+	}
+
+	/**
+	 * Fetch replacement metadata records for a set of graph nodes
+	 *
+	 * @private
+	 * @returns Map of node ID → metadata, containing only nodes that were updated
+	 */
+	private async getMetadataOverrides(
+		nodeIds: number[],
+	): Promise<Map<number, VectorMetadata>> {
+		const overrides = new Map<number, VectorMetadata>();
+
+		if (!this.sdk || nodeIds.length === 0) {
+			return overrides;
+		}
+
+		const values: (string | null)[] = await this.sdk.getMany(
+			nodeIds.map((nodeId) => serviceKey(SERVICE_KEYS.metadata, nodeId)),
+		);
+
+		nodeIds.forEach((nodeId, index) => {
+			const value = values[index];
+			if (value) {
+				overrides.set(nodeId, JSON.parse(value) as VectorMetadata);
+			}
+		});
+
+		return overrides;
+	}
+
+	/**
+	 * Check whether a graph node has been tombstoned
+	 *
+	 * @private
+	 */
+	private async isTombstoned(nodeId: number): Promise<boolean> {
+		const tombstones = await this.getTombstones();
+		return tombstones.has(nodeId);
+	}
+
+	// ============================================================================
+	// Support Functions
 	// These functions are not part of the core Eizen logic,
 	// but can be called externally (e.g., for logging, diagnostics, etc.).
 	// ============================================================================
@@ -532,26 +1877,32 @@ Command: ${rechargeInfo.instructions}`,
 	 * Get database statistics and service status
 	 *
 	 * Provides information about the current state of the vector database,
-	 * including the total number of stored vectors and initialization status.
+	 * read from the per-contract counters kept in Neon.
 	 *
 	 * @returns Promise resolving to database statistics
-	 *
-	 * @todo Implement vector count tracking via service NEON db
 	 */
-	async getStats(): Promise<{
-		totalVectors: number;
-		isInitialized: boolean;
-		contractId: string;
-	}> {
+	async getStats(): Promise<EizenStats> {
 		try {
+			const stats = this.vectorDb ? await this.getCounters() : undefined;
+
 			return {
-				totalVectors: this.vectorDb ? await this.getVectorCount() : 0,
+				totalVectors: stats ? stats.nodeCount - stats.deletedCount : 0,
+				deletedVectors: stats?.deletedCount ?? 0,
+				lastInsertAt: stats?.lastInsertAt?.toISOString() ?? null,
+				storageBytes: stats?.metadataBytes ?? 0,
 				isInitialized: this.isInitialized,
 				contractId: this.contractId,
 			};
 		} catch (error) {
+			console.error(
+				`Failed to get stats for contract ${this.contractId}:`,
+				error,
+			);
 			return {
 				totalVectors: 0,
+				deletedVectors: 0,
+				lastInsertAt: null,
+				storageBytes: 0,
 				isInitialized: this.isInitialized,
 				contractId: this.contractId,
 			};
@@ -559,16 +1910,69 @@ Command: ${rechargeInfo.instructions}`,
 	}
 
 	/**
-	 * Get the total number of vectors in the database via our service NEON db
+	 * Rebuild this contract's counters from contract state
+	 *
+	 * Tombstones are counted with getKeys() over their prefix and graph nodes
+	 * by probing get_vector() (see probeNodeCount()). Use it for contracts
+	 * created before counting existed, or after a counter update failed.
+	 *
+	 * Stored metadata bytes are not rebuilt, since that would mean reading
+	 * every vector; they keep accumulating from writes.
 	 *
-	 * This is a helper method used internally for statistics and ID estimation.
+	 * @returns Promise resolving to the reconciled counters
+	 *
+	 * @example
+	 * ```typescript
+	 * const stats = await eizenService.reconcileStats();
+	 * console.log(`${stats.nodeCount} nodes, ${stats.deletedCount} deleted`);
+	 * ```
+	 */
+	async reconcileStats(): Promise<ContractStats> {
+		return this.track(async () => {
+			await this.ensureInitialized();
+
+			console.log(
+				`Reconciling vector counters for contract: ${this.contractId}`,
+			);
+
+			const tombstones = await this.getTombstones();
+			const nodeCount = await this.probeNodeCount();
+
+			const stats = await replaceContractStats(this.contractId, {
+				nodeCount,
+				deletedCount: tombstones.size,
+			});
+
+			console.log(
+				`Contract ${this.contractId} reconciled: ${stats.nodeCount} nodes, ${stats.deletedCount} deleted`,
+			);
+
+			return stats;
+		});
+	}
+
+	/**
+	 * Read this contract's counters, reconciling them on first use
+	 *
+	 * @private
+	 */
+	private async getCounters(): Promise<ContractStats> {
+		return (
+			(await getContractStats(this.contractId)) ?? (await this.reconcileStats())
+		);
+	}
+
+	/**
+	 * Get the number of graph nodes in the contract, tombstoned ones included
+	 *
+	 * Read from contract state rather than the Neon counters, which may lag
+	 * behind when a counter update failed.
 	 *
 	 * @private
-	 * @returns Promise resolving to the vector count
-	 * @todo Implement it via service NEON db
+	 * @returns Promise resolving to the node count
 	 */
 	private async getVectorCount(): Promise<number> {
-		return 0; // Placeholder value for now
+		return await this.probeNodeCount();
 	}
 
 	/**
@@ -592,6 +1996,8 @@ Command: ${rechargeInfo.instructions}`,
 			this.isInitialized = false;
 			this.vectorDb = null;
 			this.sdk = null;
+			this.invalidateState();
+			this.embeddingProfile = null;
 
 			console.log(
 				`EizenService cleanup completed for contract: ${this.contractId}`,
@@ -607,8 +2013,10 @@ Command: ${rechargeInfo.instructions}`,
 	/**
 	 * Clean up shared resources (call this only during application shutdown)
 	 *
-	 * This static method cleans up shared Arweave configuration and should
-	 * only be called when the entire application is shutting down.
+	 * This static method cleans up cached contract instances and the shared
+	 * Arweave configuration: Warp's contract caches are closed, then the Redis
+	 * connection. It should only be called when the entire application is
+	 * shutting down.
 	 *
 	 * @example
 	 * ```typescript
@@ -618,9 +2026,25 @@ Command: ${rechargeInfo.instructions}`,
 	 */
 	static async globalCleanup(): Promise<void> {
 		try {
-			// Close Redis connection if it exists
-			if (EizenService.sharedArweaveConfig?.redis) {
-				await EizenService.sharedArweaveConfig.redis.quit();
+			// Clean up every cached contract instance
+			for (const contractId of [...EizenService.instances.keys()]) {
+				EizenService.evictInstance(contractId);
+			}
+
+			// Flush and close Warp's state and contract caches
+			if (EizenService.sharedArweaveConfig) {
+				try {
+					await EizenService.sharedArweaveConfig.warp.close();
+					console.log("Warp caches closed");
+				} catch (error) {
+					console.error("Error closing Warp caches:", error);
+				}
+			}
+
+			// Close Redis connection if it exists and the Warp cache left it open
+			const redis = EizenService.sharedArweaveConfig?.redis;
+			if (redis && redis.status !== "end") {
+				await redis.quit();
 				console.log("Redis connection closed");
 			}
 
@@ -0,0 +1,313 @@
+import { pipeline } from "@xenova/transformers";
+import type { VectorEmbedding } from "../schemas/eizen.js";
+
+export type EmbeddingProviderName = "xenova" | "openai" | "ollama";
+
+/**
+ * Contract between EmbeddingService and a concrete embedding backend
+ *
+ * Providers turn text into L2-normalized vectors. They are free to load models
+ * lazily, but must be ready for embed() once initialize() has resolved.
+ */
+export interface EmbeddingProvider {
+	readonly name: EmbeddingProviderName;
+	readonly model: string;
+	initialize(): Promise<void>;
+	embed(texts: string[]): Promise<VectorEmbedding[]>;
+	/** Number of model tokens in a text, for providers with a local tokenizer */
+	countTokens?(text: string): number;
+}
+
+export interface EmbeddingProviderConfig {
+	provider: EmbeddingProviderName;
+	model: string;
+	baseUrl?: string;
+	apiKey?: string;
+}
+
+type EmbeddingPipeline = ((
+	texts: string[],
+	options?: { pooling?: string; normalize?: boolean },
+) => Promise<{
+	data: Float32Array | number[];
+	dims: number[];
+}>) & {
+	tokenizer: {
+		encode(
+			text: string,
+			textPair?: string | null,
+			options?: { add_special_tokens?: boolean },
+		): number[];
+	};
+};
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+	xenova: "Xenova/all-MiniLM-L6-v2",
+	openai: "text-embedding-3-small",
+	ollama: "nomic-embed-text",
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<EmbeddingProviderName, string>> = {
+	openai: "https://api.openai.com/v1",
+	ollama: "http://localhost:11434",
+};
+
+/**
+ * Read the embedding provider configuration from environment variables
+ *
+ * - EMBEDDING_PROVIDER: "xenova" (default), "openai" or "ollama"
+ * - EMBEDDING_MODEL: Model name, defaults per provider
+ * - EMBEDDING_BASE_URL: HTTP endpoint for openai/ollama providers
+ * - EMBEDDING_API_KEY: Bearer token for OpenAI-compatible endpoints
+ */
+export function getEmbeddingConfig(): EmbeddingProviderConfig {
+	const provider = (process.env.EMBEDDING_PROVIDER?.trim() ||
+		"xenova") as EmbeddingProviderName;
+
+	if (!(provider in DEFAULT_MODELS)) {
+		throw new Error(
+			`Unknown EMBEDDING_PROVIDER "${provider}". Expected one of: ${Object.keys(DEFAULT_MODELS).join(", ")}`,
+		);
+	}
+
+	return {
+		provider,
+		model: process.env.EMBEDDING_MODEL?.trim() || DEFAULT_MODELS[provider],
+		baseUrl:
+			process.env.EMBEDDING_BASE_URL?.trim() || DEFAULT_BASE_URLS[provider],
+		apiKey: process.env.EMBEDDING_API_KEY,
+	};
+}
+
+/**
+ * Create the built-in provider for a configuration
+ */
+export function createEmbeddingProvider(
+	config: EmbeddingProviderConfig,
+): EmbeddingProvider {
+	switch (config.provider) {
+		case "xenova":
+			return new XenovaEmbeddingProvider(config.model);
+		case "openai":
+			return new OpenAICompatibleEmbeddingProvider(
+				config.model,
+				config.baseUrl ?? DEFAULT_BASE_URLS.openai ?? "",
+				config.apiKey,
+			);
+		case "ollama":
+			return new OllamaEmbeddingProvider(
+				config.model,
+				config.baseUrl ?? DEFAULT_BASE_URLS.ollama ?? "",
+			);
+	}
+}
+
+/**
+ * Local transformer models through @xenova/transformers
+ *
+ * Any feature-extraction model on the Hugging Face hub with ONNX weights works,
+ * e.g. "Xenova/all-MiniLM-L6-v2" (384d, English) or
+ * "Xenova/paraphrase-multilingual-MiniLM-L12-v2" (384d, multilingual).
+ * Model files are downloaded on first use and cached locally.
+ */
+export class XenovaEmbeddingProvider implements EmbeddingProvider {
+	readonly name = "xenova" as const;
+	private extractor: EmbeddingPipeline | null = null;
+
+	constructor(readonly model: string) {}
+
+	async initialize(): Promise<void> {
+		this.extractor = (await pipeline(
+			"feature-extraction",
+			this.model,
+		)) as EmbeddingPipeline; // This may take time on first run as it downloads model files
+	}
+
+	async embed(texts: string[]): Promise<VectorEmbedding[]> {
+		if (!this.extractor) {
+			throw new Error("Extractor not initialized");
+		}
+
+		// Process all texts in a single pipeline call for efficiency
+		const response = await this.extractor(texts, {
+			pooling: "mean", // Mean-pool token embeddings to get sentence embedding
+			normalize: true, // L2-normalize for consistent similarity calculations
+		});
+
+		// Extract embedding dimension as the last axis of the tensor
+		// This works correctly for tensors of any dimensionality (1D, 2D, 3D, etc.)
+		const embeddingDim = response.dims.at(-1) ?? 0;
+
+		// Validate that embeddingDim is valid
+		if (embeddingDim <= 0) {
+			throw new Error(
+				`Invalid embedding dimension: ${embeddingDim}. Response dims: [${response.dims.join(", ")}]`,
+			);
+		}
+
+		// Handle different tensor shapes properly
+		if (response.dims.length === 1) {
+			// 1D case: single embedding flattened
+			if (texts.length !== 1) {
+				throw new Error(
+					`Expected 1 text for 1D tensor, got ${texts.length} texts`,
+				);
+			}
+			// Float32Array is not JSON-serializable, so we convert to regular array
+			return [Array.from(response.data)];
+		}
+
+		if (response.dims.length !== 2) {
+			// 3D+ case: [batch_size, sequence_length, embedding_dim] or higher
+			// For mean pooling, the result should still be [batch_size, embedding_dim]
+			// If we get here, it might indicate the pooling didn't work as expected
+			throw new Error(
+				`Unexpected tensor dimensionality: ${response.dims.length}D tensor with dims [${response.dims.join(", ")}]. Expected 1D or 2D after pooling.`,
+			);
+		}
+
+		// Validate batch dimension matches expected number of texts
+		const batchDim = response.dims[0] ?? 0;
+		if (batchDim !== texts.length) {
+			throw new Error(
+				`Batch dimension mismatch: expected ${texts.length} texts but got batch size ${batchDim}. Response dims: [${response.dims.join(", ")}]`,
+			);
+		}
+
+		// 2D case: [batch_size, embedding_dim] - most common case
+		const embeddings: VectorEmbedding[] = [];
+		for (let i = 0; i < texts.length; i++) {
+			const startIdx = i * embeddingDim;
+			const endIdx = startIdx + embeddingDim;
+
+			// Validate indices are within bounds
+			if (startIdx >= response.data.length || endIdx > response.data.length) {
+				throw new Error(
+					`Index out of bounds: trying to slice [${startIdx}:${endIdx}] from data of length ${response.data.length}`,
+				);
+			}
+
+			// Extract this text's embedding from the flat array
+			embeddings.push(Array.from(response.data.slice(startIdx, endIdx)));
+		}
+
+		return embeddings;
+	}
+
+	countTokens(text: string): number {
+		if (!this.extractor) {
+			throw new Error("Extractor not initialized");
+		}
+
+		return this.extractor.tokenizer.encode(text, null, {
+			add_special_tokens: false,
+		}).length;
+	}
+}
+
+/**
+ * Any endpoint implementing the OpenAI `POST /embeddings` API
+ *
+ * Covers OpenAI itself as well as compatible servers (vLLM, LM Studio,
+ * LocalAI, Together, ...). Set EMBEDDING_BASE_URL to the API root that
+ * contains `/embeddings`.
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+	readonly name = "openai" as const;
+
+	constructor(
+		readonly model: string,
+		private readonly baseUrl: string,
+		private readonly apiKey?: string,
+	) {}
+
+	async initialize(): Promise<void> {
+		if (!this.baseUrl) {
+			throw new Error("EMBEDDING_BASE_URL is required for the openai provider");
+		}
+	}
+
+	async embed(texts: string[]): Promise<VectorEmbedding[]> {
+		const response = await fetch(
+			`${this.baseUrl.replace(/\/$/, "")}/embeddings`,
+			{
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+				},
+				body: JSON.stringify({ model: this.model, input: texts }),
+			},
+		);
+
+		if (!response.ok) {
+			throw new Error(
+				`Embedding endpoint responded ${response.status}: ${await response.text()}`,
+			);
+		}
+
+		const body = (await response.json()) as {
+			data: { index: number; embedding: number[] }[];
+		};
+
+		// The API may return items out of order; index ties them back to the input
+		const embeddings = [...body.data]
+			.sort((a, b) => a.index - b.index)
+			.map((item) => item.embedding);
+
+		if (embeddings.length !== texts.length) {
+			throw new Error(
+				`Expected ${texts.length} embeddings but endpoint returned ${embeddings.length}`,
+			);
+		}
+
+		return embeddings;
+	}
+}
+
+/**
+ * A local Ollama server (`POST /api/embed`)
+ *
+ * Pull the model first, e.g. `ollama pull nomic-embed-text`.
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+	readonly name = "ollama" as const;
+
+	constructor(
+		readonly model: string,
+		private readonly baseUrl: string,
+	) {}
+
+	async initialize(): Promise<void> {
+		if (!this.baseUrl) {
+			throw new Error("EMBEDDING_BASE_URL is required for the ollama provider");
+		}
+	}
+
+	async embed(texts: string[]): Promise<VectorEmbedding[]> {
+		const response = await fetch(
+			`${this.baseUrl.replace(/\/$/, "")}/api/embed`,
+			{
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ model: this.model, input: texts }),
+			},
+		);
+
+		if (!response.ok) {
+			throw new Error(
+				`Ollama responded ${response.status}: ${await response.text()}`,
+			);
+		}
+
+		const body = (await response.json()) as { embeddings: number[][] };
+
+		if (body.embeddings?.length !== texts.length) {
+			throw new Error(
+				`Expected ${texts.length} embeddings but Ollama returned ${body.embeddings?.length ?? 0}`,
+			);
+		}
+
+		return body.embeddings;
+	}
+}
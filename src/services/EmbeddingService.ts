@@ -1,65 +1,83 @@
-import { pipeline } from "@xenova/transformers";
 import type { VectorEmbedding } from "../schemas/eizen.js";
-
-type EmbeddingPipeline = (
-	texts: string[],
-	options?: { pooling?: string; normalize?: boolean },
-) => Promise<{
-	data: Float32Array | number[];
-	dims: number[];
-}>;
+import { type TextChunk, splitIntoChunks } from "../utils/chunking.js";
+import {
+	type EmbeddingProvider,
+	type EmbeddingProviderName,
+	createEmbeddingProvider,
+	getEmbeddingConfig,
+} from "./EmbeddingProviders.js";
 
 export interface EmbeddingResult {
 	embeddings: VectorEmbedding;
 	dimensions: number;
 	model: string;
+	provider: EmbeddingProviderName;
 }
 
+// Chunk budget for long content. MiniLM-class models are trained on sequences
+// of at most ~256 tokens, so longer texts embed poorly or get truncated.
+const CHUNK_MAX_TOKENS = Number(process.env.MEMORY_CHUNK_MAX_TOKENS) || 200;
+const CHUNK_OVERLAP_TOKENS =
+	Number(process.env.MEMORY_CHUNK_OVERLAP_TOKENS) || 40;
+
+// Rough token size for providers without a local tokenizer
+const CHARS_PER_TOKEN = 4;
+
 /**
- * Service class for converting text to vector embeddings using transformer language models.
+ * Identifies the vector space a set of embeddings lives in
  *
- * This service provides a high-level interface for text ----> vector conversion using
- * the Xenova transformers library. It handles model loading, initialization, and
- * provides both single and batch processing capabilities.
+ * Vectors are only comparable when all three fields match.
+ */
+export interface EmbeddingProfile {
+	provider: EmbeddingProviderName;
+	model: string;
+	dimensions: number;
+}
+
+/**
+ * Service class for converting text to vector embeddings using a pluggable provider.
+ *
+ * This service provides a high-level interface for text ----> vector conversion. The
+ * actual model runs behind an EmbeddingProvider selected by configuration (see
+ * getEmbeddingConfig): a local Xenova transformer, an OpenAI-compatible HTTP endpoint
+ * or an Ollama server. It handles initialization and provides both single and batch
+ * processing capabilities.
  *
  * Technical Details:
- * - Uses the "all-MiniLM-L6-v2" model (384-dimensional embeddings)
- * - Employs mean pooling to combine token-level embeddings
+ * - Defaults to the local "Xenova/all-MiniLM-L6-v2" model (384-dimensional embeddings)
  * - Outputs are L2-normalized for consistent similarity calculations
+ * - The dimensionality is learned from the first embedding produced
  */
 export class EmbeddingService {
-	private extractor: EmbeddingPipeline | null = null;
+	private provider: EmbeddingProvider;
 	private isInitialized = false;
 	private initializationPromise: Promise<void> | null = null;
+	private dimensions: number | null = null; // Known after the first embedding
+
 	/**
-	 * all-MiniLM-L6-v2 is a lightweight, fast model that produces `384-dimensional` embeddings.
-	 *  @see https://huggingface.co/Xenova/all-MiniLM-L6-v2
+	 * @param provider - Embedding backend; defaults to the one configured via environment
 	 */
-	private readonly modelName = "Xenova/all-MiniLM-L6-v2";
+	constructor(provider?: EmbeddingProvider) {
+		this.provider = provider ?? createEmbeddingProvider(getEmbeddingConfig());
+	}
 
 	/**
-	 * Loads the transformer model and prepares the feature-extraction pipeline.
-	 *
-	 * This method handles the heavy lifting of downloading and initializing the
-	 * transformer model. The model files are cached locally after first download.
+	 * Initializes the configured embedding provider.
 	 *
-	 * Process:
-	 * 1. Downloads model files (if not cached)
-	 * 2. Initializes the feature-extraction pipeline
-	 * 3. Marks service as ready for use
+	 * For the local Xenova provider this downloads (if not cached) and loads the
+	 * transformer model. HTTP providers only validate their configuration.
 	 *
 	 * @private
-	 * @throws {Error} If model loading or pipeline initialization fails
+	 * @throws {Error} If provider initialization fails
 	 */
 	private async initialize(): Promise<void> {
 		try {
 			console.log("Initializing EmbeddingService...");
-			console.log(`Loading model: ${this.modelName}`);
+			console.log(
+				`Loading model: ${this.provider.model} (provider: ${this.provider.name})`,
+			);
 
-			this.extractor = (await pipeline(
-				"feature-extraction",
-				this.modelName,
-			)) as EmbeddingPipeline; // This may take time on first run as it downloads model files
+			await this.provider.initialize();
 
 			this.isInitialized = true;
 			console.log("EmbeddingService initialized successfully");
@@ -76,7 +94,7 @@ export class EmbeddingService {
 	 */
 	async ensureInitialized(): Promise<void> {
 		// If already initialized, return immediately
-		if (this.isInitialized && this.extractor) {
+		if (this.isInitialized) {
 			return;
 		}
 
@@ -96,7 +114,7 @@ export class EmbeddingService {
 			this.initializationPromise = null;
 		}
 
-		if (!this.extractor) {
+		if (!this.isInitialized) {
 			throw new Error("EmbeddingService is not properly initialized");
 		}
 	}
@@ -108,7 +126,7 @@ export class EmbeddingService {
 	 * text is processed through the transformer model to produce a normalized
 	 * vector representation suitable for similarity calculations.
 	 *
-	 * Processing steps:
+	 * Processing steps (local Xenova provider):
 	 * 1. Tokenize the input text
 	 * 2. Generate token-level embeddings
 	 * 3. Apply mean pooling to create sentence-level embedding
@@ -128,32 +146,16 @@ export class EmbeddingService {
 	async textToEmbeddings(text: string): Promise<EmbeddingResult> {
 		await this.ensureInitialized();
 
-		if (!this.extractor) {
-			throw new Error("Extractor not initialized");
-		}
-
 		try {
 			console.log(
 				`Converting text to embeddings: "${text.substring(0, 50)}..."`,
 			);
 
-			// The pipeline returns a Float32Array (or number[]) and dims describing its shape.
-			const response = await this.extractor([text], {
-				pooling: "mean", // Mean-pool token embeddings to get sentence embedding
-				normalize: true, // L2-normalize for consistent similarity calculations
-			});
-
-			// Convert to plain number[] for easier downstream use & JSON serialization
-			// Float32Array is not JSON-serializable, so we convert to regular array
-			const embeddings: VectorEmbedding = Array.from(response.data);
+			const [embeddings] = await this.provider.embed([text]);
 
 			console.log(`Generated ${embeddings.length}-dimensional embeddings`);
 
-			return {
-				embeddings,
-				dimensions: embeddings.length,
-				model: this.modelName,
-			};
+			return this.toResult(embeddings);
 		} catch (error) {
 			console.error("Failed to generate embeddings:", error);
 			throw new Error(
@@ -179,94 +181,23 @@ export class EmbeddingService {
 	 * @returns Promise resolving to array of EmbeddingResult objects in the same order as input
 	 * @throws {Error} If the service is not initialized or batch processing fails
 	 *
-	 * @TODO Need further work and tests
 	 */
 	async batchTextToEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
 		await this.ensureInitialized();
 
-		if (!this.extractor) {
-			throw new Error("Extractor not initialized");
-		}
-
 		try {
 			console.log(`Converting ${texts.length} texts to embeddings (batch)`);
 
-			// Process all texts in a single pipeline call for efficiency
-			const response = await this.extractor(texts, {
-				pooling: "mean",
-				normalize: true,
-			});
-
-			// Extract embedding dimension as the last axis of the tensor
-			// This works correctly for tensors of any dimensionality (1D, 2D, 3D, etc.)
-			const embeddingDim = response.dims.at(-1) ?? 0;
-
-			// Validate that embeddingDim is valid
-			if (embeddingDim <= 0) {
-				throw new Error(
-					`Invalid embedding dimension: ${embeddingDim}. Response dims: [${response.dims.join(", ")}]`,
-				);
-			}
+			// Process all texts in a single provider call for efficiency
+			const batch = await this.provider.embed(texts);
 
-			// Validate batch dimension matches expected number of texts
-			const batchDim = response.dims[0] ?? 0;
-			if (batchDim !== texts.length) {
+			if (batch.length !== texts.length) {
 				throw new Error(
-					`Batch dimension mismatch: expected ${texts.length} texts but got batch size ${batchDim}. Response dims: [${response.dims.join(", ")}]`,
+					`Batch size mismatch: expected ${texts.length} embeddings but got ${batch.length}`,
 				);
 			}
 
-			const results: EmbeddingResult[] = [];
-
-			// Handle different tensor shapes properly
-			if (response.dims.length === 1) {
-				// 1D case: single embedding flattened
-				if (texts.length !== 1) {
-					throw new Error(
-						`Expected 1 text for 1D tensor, got ${texts.length} texts`,
-					);
-				}
-				const embeddings: VectorEmbedding = Array.from(response.data);
-				results.push({
-					embeddings,
-					dimensions: embeddings.length,
-					model: this.modelName,
-				});
-			} else if (response.dims.length === 2) {
-				// 2D case: [batch_size, embedding_dim] - most common case
-				for (let i = 0; i < texts.length; i++) {
-					const startIdx = i * embeddingDim;
-					const endIdx = startIdx + embeddingDim;
-
-					// Validate indices are within bounds
-					if (
-						startIdx >= response.data.length ||
-						endIdx > response.data.length
-					) {
-						throw new Error(
-							`Index out of bounds: trying to slice [${startIdx}:${endIdx}] from data of length ${response.data.length}`,
-						);
-					}
-
-					// Extract this text's embedding from the flat array
-					const embeddings: VectorEmbedding = Array.from(
-						response.data.slice(startIdx, endIdx),
-					);
-
-					results.push({
-						embeddings,
-						dimensions: embeddings.length,
-						model: this.modelName,
-					});
-				}
-			} else {
-				// 3D+ case: [batch_size, sequence_length, embedding_dim] or higher
-				// For mean pooling, the result should still be [batch_size, embedding_dim]
-				// If we get here, it might indicate the pooling didn't work as expected
-				throw new Error(
-					`Unexpected tensor dimensionality: ${response.dims.length}D tensor with dims [${response.dims.join(", ")}]. Expected 1D or 2D after pooling.`,
-				);
-			}
+			const results = batch.map((embeddings) => this.toResult(embeddings));
 
 			console.log(`Generated embeddings for ${results.length} texts`);
 			return results;
@@ -278,24 +209,80 @@ export class EmbeddingService {
 		}
 	}
 
+	/**
+	 * Splits text into overlapping chunks that fit the embedding model's input.
+	 *
+	 * Chunk sizes are measured with the provider's own tokenizer when it has
+	 * one (local Xenova models); other providers fall back to an estimate of
+	 * four characters per token. Budget and overlap are configured with
+	 * MEMORY_CHUNK_MAX_TOKENS (default 200) and MEMORY_CHUNK_OVERLAP_TOKENS
+	 * (default 40).
+	 *
+	 * @param text - The text to split
+	 * @returns Promise resolving to the chunks in order; a single chunk when the text fits
+	 *
+	 * @example
+	 * ```typescript
+	 * const chunks = await embeddingService.chunkText(longNote);
+	 * if (chunks.length > 1) {
+	 *   console.log(`Split into ${chunks.length} chunks`);
+	 * }
+	 * ```
+	 */
+	async chunkText(text: string): Promise<TextChunk[]> {
+		await this.ensureInitialized();
+
+		const countTokens =
+			this.provider.countTokens?.bind(this.provider) ??
+			((piece: string) => Math.ceil(piece.length / CHARS_PER_TOKEN));
+
+		return splitIntoChunks(text, countTokens, {
+			maxTokens: CHUNK_MAX_TOKENS,
+			overlapTokens: Math.min(CHUNK_OVERLAP_TOKENS, CHUNK_MAX_TOKENS / 2),
+		});
+	}
+
 	/**
 	 * Returns metadata about the service's current state and configuration.
 	 *
-	 * @returns Object containing model name and initialization status
+	 * @returns Object containing provider, model name, dimensions (once known) and initialization status
 	 */
-	getInfo(): { model: string; isInitialized: boolean } {
+	getInfo(): {
+		provider: EmbeddingProviderName;
+		model: string;
+		dimensions: number | null;
+		isInitialized: boolean;
+	} {
 		return {
-			model: this.modelName,
+			provider: this.provider.name,
+			model: this.provider.model,
+			dimensions: this.dimensions,
 			isInitialized: this.isInitialized,
 		};
 	}
+
+	/**
+	 * Wraps a raw vector into an EmbeddingResult and remembers its dimensionality.
+	 *
+	 * @private
+	 */
+	private toResult(embeddings: VectorEmbedding): EmbeddingResult {
+		this.dimensions = embeddings.length;
+
+		return {
+			embeddings,
+			dimensions: embeddings.length,
+			model: this.provider.model,
+			provider: this.provider.name,
+		};
+	}
 }
 
 /**
  * Singleton instance of EmbeddingService for application-wide use.
  *
  * This singleton pattern ensures that:
- * - Only one model is loaded in memory at a time
+ * - Only one model (or provider connection) is loaded in memory at a time
  * - Initialization overhead is minimized
  * - Consistent behavior across the application
  */
@@ -0,0 +1,314 @@
+import { releaseQuota } from "../database/models/UserSubscription.js";
+import {
+	type ImportJob,
+	claimImportJob,
+	createImportJob,
+	finishImportJob,
+	getImportJob,
+	listResumableImportJobs,
+	recordImportProgress,
+	releaseImportJob,
+	requeueImportJob,
+} from "../database/models/importJobs.js";
+import { MAX_IMPORT_ROWS } from "../schemas/memory.js";
+import { type ImportRowError, parseImport } from "../utils/importRecords.js";
+import { EizenService } from "./EizenService.js";
+import { MemoryService } from "./MemoryService.js";
+
+export interface ImportJobStatusResult {
+	jobId: string;
+	contractId: string;
+	status: ImportJob["status"];
+	totalRows: number;
+	processedRows: number;
+	importedRows: number;
+	reembeddedRows: number; // Imported with a recomputed vector
+	failedRows: number;
+	progress: number; // processedRows / totalRows, 0..1
+	rowErrors: ImportRowError[];
+	error: string | null;
+	createdAt: string;
+	finishedAt: string | null;
+}
+
+// Records written per MemoryService.importMemories() call; progress is saved after each
+const IMPORT_BATCH_SIZE = 25;
+
+// A running job whose worker has not reported progress for this long is taken over
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+// Validation errors reported for a rejected upload
+const MAX_REPORTED_ERRORS = 100;
+
+/**
+ * Service class for importing memory archives in the background
+ *
+ * Uploads are validated up front, stored with an import job in the database
+ * and written to the contract in batches by a worker in this process. Jobs
+ * report progress after every batch and resume from the last completed
+ * batch when interrupted: on startup (see resumeInterrupted) or on request
+ * after a failure. A batch cut off mid-write may be imported twice.
+ *
+ * Jobs of one process run one after another, so imports do not compete with
+ * each other for the embedding model and the contract.
+ *
+ * Imports are charged one quota unit per row when uploaded or resumed (see
+ * enforceQuota). Failed rows are given back after every batch, and the rows
+ * not processed when a job fails are given back with the failure.
+ *
+ * @example
+ * ```typescript
+ * const { job, errors } = await importService.createJob(contractId, ndjson);
+ * if (job) {
+ *   const status = await importService.getStatus(job.jobId);
+ *   console.log(`${status?.processedRows} of ${status?.totalRows} rows processed`);
+ * }
+ * ```
+ */
+export class ImportService {
+	private queue: Promise<void> = Promise.resolve();
+	private queued = new Set<string>(); // Jobs waiting for or being processed by this process
+	private stopping = false;
+
+	/**
+	 * Validate an upload and queue it as an import job
+	 *
+	 * @param contractId - Contract to import into
+	 * @param ndjson - The uploaded NDJSON text
+	 * @param userId - Clerk user charged for the rows, refunded for failed rows
+	 * @returns The queued job, or the validation errors when the upload was rejected
+	 */
+	async createJob(
+		contractId: string,
+		ndjson: string,
+		userId?: string,
+	): Promise<{ job?: ImportJobStatusResult; errors: ImportRowError[] }> {
+		const { records, errors } = parseImport(ndjson);
+
+		if (errors.length > 0) {
+			return { errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+		}
+		if (records.length === 0) {
+			return { errors: [{ line: 0, error: "No memories to import" }] };
+		}
+		if (records.length > MAX_IMPORT_ROWS) {
+			return {
+				errors: [
+					{
+						line: MAX_IMPORT_ROWS + 1,
+						error: `At most ${MAX_IMPORT_ROWS} memories can be imported at once`,
+					},
+				],
+			};
+		}
+
+		const job = await createImportJob(
+			contractId,
+			ndjson,
+			records.length,
+			userId,
+		);
+		this.enqueue(job.id);
+
+		return { job: this.toResult(job), errors: [] };
+	}
+
+	/**
+	 * Get the progress of an import job
+	 *
+	 * @param jobId - Import job ID
+	 * @returns Promise resolving to the job status, or null if it does not exist
+	 */
+	async getStatus(jobId: string): Promise<ImportJobStatusResult | null> {
+		const job = await getImportJob(jobId);
+		return job ? this.toResult(job) : null;
+	}
+
+	/**
+	 * Restart a failed job from its last completed batch
+	 *
+	 * @param jobId - Import job ID
+	 * @returns Promise resolving to the requeued job, or null if it is not a failed job
+	 */
+	async resume(jobId: string): Promise<ImportJobStatusResult | null> {
+		const job = await requeueImportJob(jobId);
+		if (!job) {
+			return null;
+		}
+
+		this.enqueue(job.id);
+		return this.toResult(job);
+	}
+
+	/**
+	 * Queue jobs left pending or abandoned mid-run, e.g. by a restart
+	 *
+	 * Called once on server startup.
+	 *
+	 * @returns Promise resolving to the number of jobs queued
+	 */
+	async resumeInterrupted(): Promise<number> {
+		const jobIds = await listResumableImportJobs(
+			new Date(Date.now() - STALE_AFTER_MS),
+		);
+
+		for (const jobId of jobIds) {
+			this.enqueue(jobId);
+		}
+
+		return jobIds.length;
+	}
+
+	/**
+	 * Stop after the batch being written and hand running jobs back
+	 *
+	 * Called on shutdown. Interrupted jobs are marked pending again so the
+	 * next process resumes them at once instead of waiting for them to go
+	 * stale.
+	 *
+	 * @returns Promise resolving when no batch of this process is being written
+	 */
+	async stop(): Promise<void> {
+		this.stopping = true;
+		await this.queue;
+	}
+
+	/**
+	 * Process a job after the jobs already queued in this process
+	 *
+	 * @private
+	 */
+	private enqueue(jobId: string): void {
+		if (this.queued.has(jobId)) {
+			return;
+		}
+
+		this.queued.add(jobId);
+		this.queue = this.queue
+			.then(() => this.run(jobId))
+			.catch((error) => {
+				console.error(`Import job ${jobId} crashed:`, error);
+			})
+			.finally(() => {
+				this.queued.delete(jobId);
+			});
+	}
+
+	/**
+	 * Import a job's remaining records batch by batch
+	 *
+	 * @private
+	 */
+	private async run(jobId: string): Promise<void> {
+		if (this.stopping) {
+			return;
+		}
+
+		const job = await claimImportJob(
+			jobId,
+			new Date(Date.now() - STALE_AFTER_MS),
+		);
+		if (!job) {
+			return; // Finished, or held by another worker
+		}
+
+		console.log(
+			`Import job ${jobId}: importing rows ${job.processedRows + 1}-${job.totalRows} into ${job.contractId}`,
+		);
+
+		let processedRows = job.processedRows;
+
+		try {
+			const { records } = parseImport(job.payload);
+			const eizenService = await EizenService.forContract(job.contractId);
+			const memoryService = new MemoryService(eizenService);
+
+			for (
+				let start = job.processedRows;
+				start < records.length;
+				start += IMPORT_BATCH_SIZE
+			) {
+				if (this.stopping) {
+					await releaseImportJob(jobId);
+					console.log(`Import job ${jobId} paused at row ${start + 1}`);
+					return;
+				}
+
+				const batch = records.slice(start, start + IMPORT_BATCH_SIZE);
+				const results = await memoryService.importMemories(
+					batch.map(({ record }) => record),
+				);
+
+				const imported = results.filter((result) => result.success);
+				const failed = results.filter((result) => !result.success);
+
+				await recordImportProgress(jobId, {
+					processedRows: batch.length,
+					importedRows: imported.length,
+					reembeddedRows: imported.filter((result) => result.reembedded).length,
+					failedRows: failed.length,
+					rowErrors: failed.map((result) => ({
+						line: batch[result.index].line,
+						error: result.error ?? "Unknown error",
+					})),
+				});
+				processedRows += batch.length;
+
+				await this.refund(job, failed.length);
+			}
+
+			await finishImportJob(jobId, "completed");
+			console.log(`Import job ${jobId} completed`);
+		} catch (error) {
+			console.error(`Import job ${jobId} failed:`, error);
+			await finishImportJob(
+				jobId,
+				"failed",
+				error instanceof Error ? error.message : "Unknown error",
+			);
+			await this.refund(job, job.totalRows - processedRows); // Charged again on resume
+		}
+	}
+
+	/**
+	 * Give back quota charged for rows that were not imported
+	 *
+	 * @private
+	 */
+	private async refund(job: ImportJob, rows: number): Promise<void> {
+		if (!job.clerkUserId || rows <= 0) {
+			return;
+		}
+
+		try {
+			await releaseQuota(job.clerkUserId, rows);
+		} catch (error) {
+			console.error(`Failed to release quota of import job ${job.id}:`, error);
+		}
+	}
+
+	/**
+	 * Build the API result from a job record
+	 *
+	 * @private
+	 */
+	private toResult(job: ImportJob): ImportJobStatusResult {
+		return {
+			jobId: job.id,
+			contractId: job.contractId,
+			status: job.status,
+			totalRows: job.totalRows,
+			processedRows: job.processedRows,
+			importedRows: job.importedRows,
+			reembeddedRows: job.reembeddedRows,
+			failedRows: job.failedRows,
+			progress: job.totalRows > 0 ? job.processedRows / job.totalRows : 0,
+			rowErrors: job.rowErrors,
+			error: job.error,
+			createdAt: job.createdAt.toISOString(),
+			finishedAt: job.finishedAt?.toISOString() ?? null,
+		};
+	}
+}
+
+export const importService = new ImportService();
@@ -0,0 +1,549 @@
+import { randomUUID } from "node:crypto";
+import type { Redis } from "ioredis";
+import { releaseQuota } from "../database/models/UserSubscription.js";
+import type { CreateMemory } from "../schemas/memory.js";
+import { EizenService } from "./EizenService.js";
+import { type CreateMemoryResult, MemoryService } from "./MemoryService.js";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface Job {
+	id: string;
+	type: "memory.insert";
+	contractId: string;
+	payload: CreateMemory;
+	quota: { userId: string; units: number } | null; // Quota charged for the job, given back if it fails
+	storedVectorIds: number[]; // Vectors committed by the current attempt, removed before a retry
+	status: JobStatus;
+	attempts: number; // Runs started so far, including the current one
+	maxAttempts: number;
+	result: CreateMemoryResult | null;
+	error: string | null; // Error of the last failed attempt
+	createdAt: string;
+	updatedAt: string;
+	nextRunAt: string | null; // When a queued job is due
+	finishedAt: string | null;
+}
+
+export type JobStatusResult = Omit<
+	Job,
+	"payload" | "quota" | "storedVectorIds"
+>;
+
+/**
+ * Where jobs and the queue of due jobs are kept
+ *
+ * Claimed jobs are leased: a job whose worker disappears without releasing
+ * it is queued again once the lease runs out (see recover). Workers renew
+ * the lease while the job runs.
+ */
+interface JobStore {
+	save(job: Job): Promise<void>;
+	get(jobId: string): Promise<Job | null>;
+	schedule(jobId: string, runAt: number): Promise<void>;
+	claim(now: number, leaseUntil: number): Promise<string | null>;
+	renew(jobId: string, leaseUntil: number): Promise<void>;
+	release(jobId: string): Promise<void>;
+	recover(now: number): Promise<void>;
+}
+
+const MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 5;
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+const POLL_INTERVAL_MS = 1000;
+const LEASE_MS = 5 * 60 * 1000;
+const LEASE_RENEW_INTERVAL_MS = LEASE_MS / 3; // Leaves two renewals of slack before a lease runs out
+const RETENTION_SECONDS = 24 * 60 * 60; // Job records expire a day after their last update
+
+// Retry delays by cause: doubled per attempt, up to MAX_RETRY_DELAY_MS
+const INSUFFICIENT_BALANCE_DELAY_MS = 60 * 1000; // The wallet has to be topped up first
+const GATEWAY_ERROR_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const INSUFFICIENT_BALANCE_ERROR = /insufficient (wallet )?balance/i;
+const GATEWAY_ERROR =
+	/gateway|bundler|timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|fetch failed|\b(429|502|503|504)\b/i;
+
+/**
+ * Delay before retrying a failed attempt, or null if the error is permanent
+ *
+ * Only transient Arweave failures are retried: an underfunded service wallet
+ * and gateway or bundler errors. Validation and embedding errors fail the job
+ * at once.
+ */
+function retryDelay(error: string, attempt: number): number | null {
+	let base: number;
+	if (INSUFFICIENT_BALANCE_ERROR.test(error)) {
+		base = INSUFFICIENT_BALANCE_DELAY_MS;
+	} else if (GATEWAY_ERROR.test(error)) {
+		base = GATEWAY_ERROR_DELAY_MS;
+	} else {
+		return null;
+	}
+
+	const jitter = 0.8 + Math.random() * 0.4; // Spread retries of jobs that failed together
+	return Math.min(MAX_RETRY_DELAY_MS, base * 2 ** (attempt - 1) * jitter);
+}
+
+// Move the first due job from the queue to the running set, atomically so a
+// crash between the two never loses the job
+const CLAIM_JOB_SCRIPT = `
+local jobId = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, 1)[1]
+if not jobId then
+	return false
+end
+redis.call("ZREM", KEYS[1], jobId)
+redis.call("ZADD", KEYS[2], ARGV[2], jobId)
+return jobId
+`;
+
+// Move jobs whose lease ran out from the running set back to the queue
+const RECOVER_JOBS_SCRIPT = `
+local expired = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1])
+for _, jobId in ipairs(expired) do
+	redis.call("ZREM", KEYS[1], jobId)
+	redis.call("ZADD", KEYS[2], ARGV[1], jobId)
+end
+return expired
+`;
+
+/**
+ * Job store shared by all API processes through Redis
+ *
+ * Due jobs sit in a sorted set scored by run time, claimed jobs in a second
+ * one scored by lease expiry. Jobs move between the two in Lua scripts, so
+ * only one worker wins a job and none is lost in between.
+ */
+class RedisJobStore implements JobStore {
+	private static readonly QUEUE_KEY = "jobs:queue";
+	private static readonly RUNNING_KEY = "jobs:running";
+
+	constructor(private redis: Redis) {}
+
+	private static recordKey(jobId: string): string {
+		return `jobs:record:${jobId}`;
+	}
+
+	async save(job: Job): Promise<void> {
+		await this.redis.set(
+			RedisJobStore.recordKey(job.id),
+			JSON.stringify(job),
+			"EX",
+			RETENTION_SECONDS,
+		);
+	}
+
+	async get(jobId: string): Promise<Job | null> {
+		const value = await this.redis.get(RedisJobStore.recordKey(jobId));
+		return value ? (JSON.parse(value) as Job) : null;
+	}
+
+	async schedule(jobId: string, runAt: number): Promise<void> {
+		await this.redis.zadd(RedisJobStore.QUEUE_KEY, runAt, jobId);
+	}
+
+	async claim(now: number, leaseUntil: number): Promise<string | null> {
+		const jobId = (await this.redis.eval(
+			CLAIM_JOB_SCRIPT,
+			2,
+			RedisJobStore.QUEUE_KEY,
+			RedisJobStore.RUNNING_KEY,
+			now,
+			leaseUntil,
+		)) as string | null;
+
+		return jobId ?? null;
+	}
+
+	async renew(jobId: string, leaseUntil: number): Promise<void> {
+		// XX: a lease that already ran out and was recovered stays recovered
+		await this.redis.zadd(RedisJobStore.RUNNING_KEY, "XX", leaseUntil, jobId);
+	}
+
+	async release(jobId: string): Promise<void> {
+		await this.redis.zrem(RedisJobStore.RUNNING_KEY, jobId);
+	}
+
+	async recover(now: number): Promise<void> {
+		const expired = (await this.redis.eval(
+			RECOVER_JOBS_SCRIPT,
+			2,
+			RedisJobStore.RUNNING_KEY,
+			RedisJobStore.QUEUE_KEY,
+			now,
+		)) as string[];
+
+		for (const jobId of expired) {
+			console.warn(`Job ${jobId} lease expired, queueing it again`);
+		}
+	}
+}
+
+/**
+ * Job store of this process, used without REDIS_URL
+ *
+ * Jobs are lost on restart and only visible to this process.
+ */
+class MemoryJobStore implements JobStore {
+	private jobs = new Map<string, { job: Job; expiresAt: number }>();
+	private queue = new Map<string, number>(); // Job ID -> run time
+
+	async save(job: Job): Promise<void> {
+		this.jobs.set(job.id, {
+			job: structuredClone(job),
+			expiresAt: Date.now() + RETENTION_SECONDS * 1000,
+		});
+	}
+
+	async get(jobId: string): Promise<Job | null> {
+		const entry = this.jobs.get(jobId);
+		return entry ? structuredClone(entry.job) : null;
+	}
+
+	async schedule(jobId: string, runAt: number): Promise<void> {
+		this.queue.set(jobId, runAt);
+	}
+
+	async claim(now: number): Promise<string | null> {
+		for (const [jobId, runAt] of this.queue) {
+			if (runAt <= now) {
+				this.queue.delete(jobId);
+				return jobId;
+			}
+		}
+		return null;
+	}
+
+	async renew(): Promise<void> {}
+
+	async release(): Promise<void> {}
+
+	async recover(now: number): Promise<void> {
+		// A worker of this process cannot disappear; only drop expired records
+		for (const [jobId, entry] of this.jobs) {
+			if (entry.expiresAt <= now && !this.queue.has(jobId)) {
+				this.jobs.delete(jobId);
+			}
+		}
+	}
+}
+
+/**
+ * Service class for running slow contract writes in the background
+ *
+ * `POST /memories/insert?async=true` queues a job and answers at once instead
+ * of waiting for embedding and the Warp interaction. Workers in every API
+ * process poll the queue and run up to JOB_CONCURRENCY jobs each. Attempts
+ * failing on an underfunded wallet or a gateway error are retried with
+ * exponential backoff, up to JOB_MAX_ATTEMPTS runs.
+ *
+ * Jobs are kept in Redis when REDIS_URL is configured, otherwise in process
+ * memory. Job records expire a day after their last update.
+ *
+ * @example
+ * ```typescript
+ * const job = await jobService.enqueueMemoryInsert(contractId, { content: "User prefers tea" });
+ * const status = await jobService.getJob(job.id);
+ * console.log(status?.status, status?.result?.memoryId);
+ * ```
+ */
+export class JobService {
+	private storePromise: Promise<JobStore> | null = null;
+	private timer: NodeJS.Timeout | null = null;
+	private polling = false;
+	private stopping = false;
+	private active = new Set<Promise<void>>();
+
+	/**
+	 * Queue a memory for background creation
+	 *
+	 * @param contractId - Contract to store the memory in
+	 * @param data - Validated memory creation data
+	 * @param quota - Quota charged for the memory, given back if the job fails
+	 * @returns Promise resolving to the queued job
+	 */
+	async enqueueMemoryInsert(
+		contractId: string,
+		data: CreateMemory,
+		quota: Job["quota"] = null,
+	): Promise<JobStatusResult> {
+		const store = await this.getStore();
+		const now = new Date().toISOString();
+
+		const job: Job = {
+			id: randomUUID(),
+			type: "memory.insert",
+			contractId,
+			payload: data,
+			quota,
+			storedVectorIds: [],
+			status: "queued",
+			attempts: 0,
+			maxAttempts: MAX_ATTEMPTS,
+			result: null,
+			error: null,
+			createdAt: now,
+			updatedAt: now,
+			nextRunAt: now,
+			finishedAt: null,
+		};
+
+		await store.save(job);
+		await store.schedule(job.id, Date.now());
+
+		void this.poll(); // Don't wait for the next tick
+
+		return this.toResult(job);
+	}
+
+	/**
+	 * Get a job's status and, once completed, its result
+	 *
+	 * @param jobId - Job ID
+	 * @returns Promise resolving to the job, or null if unknown or expired
+	 */
+	async getJob(jobId: string): Promise<JobStatusResult | null> {
+		const store = await this.getStore();
+		const job = await store.get(jobId);
+		return job ? this.toResult(job) : null;
+	}
+
+	/**
+	 * Start polling for due jobs
+	 *
+	 * Called once on server startup.
+	 */
+	start(): void {
+		if (this.timer) {
+			return;
+		}
+
+		this.timer = setInterval(() => {
+			void this.poll();
+		}, POLL_INTERVAL_MS);
+	}
+
+	/**
+	 * Stop claiming jobs and wait for the running ones to finish
+	 *
+	 * Called on shutdown. Queued jobs stay queued for the next process; with
+	 * Redis, jobs still running when the process exits are queued again once
+	 * their lease expires.
+	 *
+	 * @returns Promise resolving when no job of this process is running
+	 */
+	async stop(): Promise<void> {
+		this.stopping = true;
+
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+
+		await Promise.allSettled([...this.active]);
+	}
+
+	/**
+	 * Pick up the store once: Redis if configured, else process memory
+	 *
+	 * @private
+	 */
+	private getStore(): Promise<JobStore> {
+		if (!this.storePromise) {
+			this.storePromise = EizenService.getSharedRedis().then((redis) =>
+				redis ? new RedisJobStore(redis) : new MemoryJobStore(),
+			);
+			this.storePromise.catch(() => {
+				this.storePromise = null; // Try again on the next call
+			});
+		}
+
+		return this.storePromise;
+	}
+
+	/**
+	 * Claim due jobs until this process runs JOB_CONCURRENCY of them
+	 *
+	 * @private
+	 */
+	private async poll(): Promise<void> {
+		if (this.polling || this.stopping) {
+			return;
+		}
+		this.polling = true;
+
+		try {
+			const store = await this.getStore();
+			await store.recover(Date.now());
+
+			while (this.active.size < CONCURRENCY) {
+				const jobId = await store.claim(Date.now(), Date.now() + LEASE_MS);
+				if (!jobId) {
+					break;
+				}
+
+				const run: Promise<void> = this.process(store, jobId)
+					.catch((error) => {
+						console.error(`Job ${jobId} crashed:`, error);
+					})
+					.finally(() => {
+						this.active.delete(run);
+					});
+				this.active.add(run);
+			}
+		} catch (error) {
+			console.error("Job queue poll failed:", error);
+		} finally {
+			this.polling = false;
+		}
+	}
+
+	/**
+	 * Run one attempt of a claimed job and record its outcome
+	 *
+	 * @private
+	 */
+	private async process(store: JobStore, jobId: string): Promise<void> {
+		const job = await store.get(jobId);
+		if (!job || job.status === "completed" || job.status === "failed") {
+			await store.release(jobId);
+			return;
+		}
+
+		// Keep the job leased for as long as it runs
+		const lease = setInterval(() => {
+			store.renew(jobId, Date.now() + LEASE_MS).catch((error) => {
+				console.error(`Failed to renew the lease of job ${jobId}:`, error);
+			});
+		}, LEASE_RENEW_INTERVAL_MS);
+
+		try {
+			await this.runAttempt(store, job);
+		} finally {
+			clearInterval(lease);
+		}
+
+		job.updatedAt = new Date().toISOString();
+		await store.save(job);
+
+		if (job.status === "queued" && job.nextRunAt) {
+			await store.schedule(jobId, Date.parse(job.nextRunAt));
+		}
+		await store.release(jobId);
+	}
+
+	/**
+	 * Run one attempt of a job and set its outcome on the job
+	 *
+	 * An earlier attempt may have committed vectors before failing, e.g. a
+	 * memory whose chunks then failed to store. Those are removed first, so a
+	 * retry never stores the memory twice.
+	 *
+	 * @private
+	 */
+	private async runAttempt(store: JobStore, job: Job): Promise<void> {
+		job.status = "running";
+		job.attempts++;
+		job.nextRunAt = null;
+		job.updatedAt = new Date().toISOString();
+		job.storedVectorIds ??= []; // Jobs queued before the field existed
+		await store.save(job);
+
+		try {
+			const eizenService = await EizenService.forContract(job.contractId);
+			const memoryService = new MemoryService(eizenService);
+
+			await this.discardStoredVectors(store, job, eizenService);
+
+			job.result = await memoryService.createMemory(
+				job.payload,
+				async (vectorIds) => {
+					job.storedVectorIds.push(...vectorIds);
+					await store.save(job);
+				},
+			);
+			job.status = "completed";
+			job.error = null;
+			job.finishedAt = new Date().toISOString();
+		} catch (error) {
+			job.error = error instanceof Error ? error.message : "Unknown error";
+
+			const delay =
+				job.attempts < job.maxAttempts
+					? retryDelay(job.error, job.attempts)
+					: null;
+
+			if (delay === null) {
+				console.error(`Job ${job.id} failed:`, job.error);
+				job.status = "failed";
+				job.finishedAt = new Date().toISOString();
+
+				if (job.quota) {
+					await releaseQuota(job.quota.userId, job.quota.units).catch(
+						(releaseError) => {
+							console.error(
+								`Failed to release quota of job ${job.id}:`,
+								releaseError,
+							);
+						},
+					);
+				}
+
+				// The caller is told the memory was not stored
+				await this.discardStoredVectors(store, job).catch((discardError) => {
+					console.error(
+						`Failed to remove the vectors of job ${job.id}:`,
+						discardError,
+					);
+				});
+			} else {
+				console.warn(
+					`Job ${job.id} attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)}s:`,
+					job.error,
+				);
+				job.status = "queued";
+				job.nextRunAt = new Date(Date.now() + delay).toISOString();
+			}
+		}
+	}
+
+	/**
+	 * Delete the vectors a failed attempt of the job committed
+	 *
+	 * @private
+	 */
+	private async discardStoredVectors(
+		store: JobStore,
+		job: Job,
+		eizenService?: EizenService,
+	): Promise<void> {
+		if (job.storedVectorIds.length === 0) {
+			return;
+		}
+
+		const service =
+			eizenService ?? (await EizenService.forContract(job.contractId));
+		for (const vectorId of job.storedVectorIds) {
+			await service.deleteVector(vectorId); // null if already deleted
+		}
+
+		job.storedVectorIds = [];
+		await store.save(job);
+	}
+
+	/**
+	 * Build the API result from a job record
+	 *
+	 * @private
+	 */
+	private toResult(job: Job): JobStatusResult {
+		const {
+			payload: _payload,
+			quota: _quota,
+			storedVectorIds: _storedVectorIds,
+			...result
+		} = job;
+		return result;
+	}
+}
+
+export const jobService = new JobService();
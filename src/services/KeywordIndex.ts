@@ -0,0 +1,374 @@
+import type { VectorMetadata } from "../schemas/eizen.js";
+import type { EizenService } from "./EizenService.js";
+
+export interface KeywordSearchResult {
+	id: number; // Stable vector ID
+	score: number; // BM25 score (higher == more relevant)
+	metadata?: VectorMetadata;
+}
+
+interface IndexedDocument {
+	vectorId: number;
+	length: number; // Number of tokens in the content
+	termFrequencies: Map<string, number>;
+	metadata?: VectorMetadata;
+}
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2; // Term frequency saturation
+const BM25_B = 0.75; // Document length normalisation
+
+// Reciprocal rank fusion constant: dampens the weight of top ranks (Cormack et al., 2009)
+const RRF_K = 60;
+
+const SCAN_PAGE_SIZE = 100; // Graph nodes read per scanVectors() call while syncing
+
+// Registry bounds, shared with the EizenService instance registry
+const getCacheParams = () => ({
+	maxSize: Number(process.env.EIZEN_CACHE_SIZE) || 100, // Contracts whose index is kept at once
+	idleTtlMs: (Number(process.env.EIZEN_CACHE_IDLE_SECONDS) || 600) * 1000, // Unused indexes are dropped after this long
+});
+
+/**
+ * Split text into index terms
+ *
+ * Identifiers such as ticket numbers ("ENG-1234"), file paths
+ * ("src/routes/memories.ts") and e-mail addresses are kept whole, and their
+ * parts are indexed as well, so both "ENG-1234" and "memories" match.
+ */
+export function tokenize(text: string): string[] {
+	const tokens: string[] = [];
+
+	for (const word of text.toLowerCase().split(/[^\p{L}\p{N}\-_./#:@]+/u)) {
+		const trimmed = word.replace(/^[\-_./#:@]+|[\-_./#:@]+$/g, "");
+		if (!trimmed) {
+			continue;
+		}
+
+		tokens.push(trimmed);
+
+		const parts = trimmed.split(/[\-_./#:@]+/).filter(Boolean);
+		if (parts.length > 1) {
+			tokens.push(...parts);
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion
+ *
+ * Each result scores the sum of 1 / (RRF_K + rank) over the lists it
+ * appears in, which rewards results ranked well by several sources without
+ * having to compare distances with BM25 scores. A result found by several
+ * lists keeps the first distance reported for it.
+ *
+ * @param rankings - Result lists, best first
+ * @param k - Number of results to return
+ * @returns The k best fused results, with their fused `score`
+ */
+export function fuseRankings<T extends { id: number; distance?: number }>(
+	rankings: T[][],
+	k: number,
+): (T & { score: number })[] {
+	const fused = new Map<number, T & { score: number }>();
+
+	for (const ranking of rankings) {
+		ranking.forEach((result, index) => {
+			const contribution = 1 / (RRF_K + index + 1);
+			const existing = fused.get(result.id);
+
+			fused.set(result.id, {
+				...existing,
+				...result,
+				distance: existing?.distance ?? result.distance,
+				score: (existing?.score ?? 0) + contribution,
+			});
+		});
+	}
+
+	return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, k);
+}
+
+/**
+ * In-process BM25 keyword index over memory content, one per contract
+ *
+ * The index is derived data: it is built locally from the contract's stored
+ * metadata (see EizenService.scanVectors) and never written to Arweave.
+ * Documents are keyed by graph node, so re-embedded memories are picked up as
+ * new nodes and superseded or deleted ones are dropped via their tombstones.
+ *
+ * Call sync() before searching to catch up with writes made since the last
+ * sync, including writes from other API instances. Metadata-only updates
+ * made through another instance are only picked up by rebuild().
+ *
+ * @example
+ * ```typescript
+ * const index = KeywordIndex.forContract(contractId);
+ * await index.sync(eizenService);
+ * const hits = index.search("ENG-1234", 10);
+ * ```
+ */
+export class KeywordIndex {
+	private documents = new Map<number, IndexedDocument>(); // Graph node → document
+	private postings = new Map<string, Set<number>>(); // Term → graph nodes containing it
+	private totalLength = 0;
+	private nextNodeId = 0; // First graph node not yet indexed
+	private syncPromise: Promise<void> | null = null;
+
+	// Indexes by contract ID, least recently used first (see forContract)
+	private static indexes = new Map<
+		string,
+		{ index: KeywordIndex; lastUsedAt: number }
+	>();
+
+	/**
+	 * Get the keyword index of a contract, creating an empty one if needed
+	 *
+	 * Indexes are shared by all requests and kept in a bounded LRU registry
+	 * like EizenService instances: indexes idle for longer than
+	 * EIZEN_CACHE_IDLE_SECONDS, or least recently used beyond
+	 * EIZEN_CACHE_SIZE, are dropped and rebuilt from the contract when needed
+	 * again.
+	 *
+	 * @param contractId - The Arweave contract ID
+	 */
+	static forContract(contractId: string): KeywordIndex {
+		const now = Date.now();
+		const { maxSize, idleTtlMs } = getCacheParams();
+
+		// Ordered by last use, so the scan stops at the first index still in use
+		for (const [key, entry] of KeywordIndex.indexes) {
+			if (now - entry.lastUsedAt < idleTtlMs) {
+				break;
+			}
+			KeywordIndex.indexes.delete(key);
+		}
+
+		const index =
+			KeywordIndex.indexes.get(contractId)?.index ?? new KeywordIndex();
+
+		// Re-insert to mark as most recently used
+		KeywordIndex.indexes.delete(contractId);
+		KeywordIndex.indexes.set(contractId, { index, lastUsedAt: now });
+
+		for (const key of KeywordIndex.indexes.keys()) {
+			if (KeywordIndex.indexes.size <= maxSize) {
+				break;
+			}
+			KeywordIndex.indexes.delete(key);
+		}
+
+		return index;
+	}
+
+	/**
+	 * Drop the keyword index of a contract, e.g. when its EizenService is evicted
+	 *
+	 * @param contractId - The Arweave contract ID
+	 */
+	static drop(contractId: string): void {
+		KeywordIndex.indexes.delete(contractId);
+	}
+
+	/** Number of indexed (live) memories */
+	get size(): number {
+		return this.documents.size;
+	}
+
+	/**
+	 * Catch up with the contract: index new graph nodes and drop tombstoned ones
+	 *
+	 * Concurrent callers share a single sync.
+	 *
+	 * @param eizenService - Service for the contract this index belongs to
+	 */
+	async sync(eizenService: EizenService): Promise<void> {
+		if (!this.syncPromise) {
+			this.syncPromise = this.runSync(eizenService).finally(() => {
+				this.syncPromise = null;
+			});
+		}
+		return await this.syncPromise;
+	}
+
+	/**
+	 * Discard the index and rebuild it from the contract's stored metadata
+	 *
+	 * @param eizenService - Service for the contract this index belongs to
+	 * @returns Promise resolving to the number of indexed memories
+	 */
+	async rebuild(eizenService: EizenService): Promise<number> {
+		await this.syncPromise;
+
+		this.documents.clear();
+		this.postings.clear();
+		this.totalLength = 0;
+		this.nextNodeId = 0;
+
+		await this.sync(eizenService);
+		return this.size;
+	}
+
+	/**
+	 * Replace the metadata kept for a node after a metadata-only update
+	 *
+	 * @param nodeId - Graph node holding the memory
+	 * @param metadata - The memory's new metadata
+	 */
+	updateMetadata(nodeId: number, metadata: VectorMetadata): void {
+		const document = this.documents.get(nodeId);
+		if (document) {
+			document.metadata = metadata;
+		}
+	}
+
+	/**
+	 * Rank indexed memories against a query with BM25
+	 *
+	 * @param query - Free text query
+	 * @param k - Maximum number of results
+	 * @param filter - Optional predicate on each memory's metadata
+	 * @returns Results ordered by descending score, with the number of documents scored
+	 */
+	search(
+		query: string,
+		k: number,
+		filter?: (metadata?: VectorMetadata) => boolean,
+	): { results: KeywordSearchResult[]; documentsScored: number } {
+		const terms = [...new Set(tokenize(query))];
+		const documentCount = this.documents.size;
+		const averageLength =
+			documentCount > 0 ? this.totalLength / documentCount : 0;
+
+		const scores = new Map<number, number>();
+		for (const term of terms) {
+			const nodeIds = this.postings.get(term);
+			if (!nodeIds) {
+				continue;
+			}
+
+			const idf = Math.log(
+				1 + (documentCount - nodeIds.size + 0.5) / (nodeIds.size + 0.5),
+			);
+
+			for (const nodeId of nodeIds) {
+				const document = this.documents.get(nodeId);
+				if (!document) {
+					continue;
+				}
+
+				const frequency = document.termFrequencies.get(term) ?? 0;
+				const normalisation =
+					BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength);
+				const termScore =
+					(idf * frequency * (BM25_K1 + 1)) / (frequency + normalisation);
+
+				scores.set(nodeId, (scores.get(nodeId) ?? 0) + termScore);
+			}
+		}
+
+		const results: KeywordSearchResult[] = [];
+		for (const [nodeId, score] of scores) {
+			const document = this.documents.get(nodeId);
+			if (!document || (filter && !filter(document.metadata))) {
+				continue;
+			}
+			results.push({
+				id: document.vectorId,
+				score,
+				metadata: document.metadata,
+			});
+		}
+
+		results.sort((a, b) => b.score - a.score);
+
+		return { results: results.slice(0, k), documentsScored: scores.size };
+	}
+
+	/**
+	 * Index every graph node added since the last sync, then drop tombstoned nodes
+	 *
+	 * @private
+	 */
+	private async runSync(eizenService: EizenService): Promise<void> {
+		let fromNodeId: number | null = this.nextNodeId;
+
+		while (fromNodeId !== null) {
+			const page = await eizenService.scanVectors(fromNodeId, SCAN_PAGE_SIZE);
+
+			for (const vector of page.vectors) {
+				this.add(vector.nodeId, vector.id, vector.metadata);
+			}
+
+			this.nextNodeId = page.nextNodeId ?? page.nodeCount;
+			fromNodeId = page.nextNodeId;
+		}
+
+		// Nodes indexed earlier may have been deleted or superseded since
+		for (const nodeId of await eizenService.listTombstones()) {
+			this.remove(nodeId);
+		}
+	}
+
+	/**
+	 * Add a memory's content to the index
+	 *
+	 * @private
+	 */
+	private add(nodeId: number, vectorId: number, metadata?: VectorMetadata) {
+		if (this.documents.has(nodeId)) {
+			return;
+		}
+
+		const content =
+			typeof metadata?.content === "string" ? metadata.content : "";
+		const tokens = tokenize(content);
+
+		const termFrequencies = new Map<string, number>();
+		for (const token of tokens) {
+			termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+		}
+
+		for (const term of termFrequencies.keys()) {
+			let nodeIds = this.postings.get(term);
+			if (!nodeIds) {
+				nodeIds = new Set();
+				this.postings.set(term, nodeIds);
+			}
+			nodeIds.add(nodeId);
+		}
+
+		this.documents.set(nodeId, {
+			vectorId,
+			length: tokens.length,
+			termFrequencies,
+			metadata,
+		});
+		this.totalLength += tokens.length;
+	}
+
+	/**
+	 * Remove a graph node from the index
+	 *
+	 * @private
+	 */
+	private remove(nodeId: number) {
+		const document = this.documents.get(nodeId);
+		if (!document) {
+			return;
+		}
+
+		for (const term of document.termFrequencies.keys()) {
+			const nodeIds = this.postings.get(term);
+			nodeIds?.delete(nodeId);
+			if (nodeIds?.size === 0) {
+				this.postings.delete(term);
+			}
+		}
+
+		this.documents.delete(nodeId);
+		this.totalLength -= document.length;
+	}
+}
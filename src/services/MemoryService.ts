@@ -1,25 +1,169 @@
+import {
+	type MemoryIndexEntry,
+	type NewMemoryIndexEntry,
+	deleteMemoryIndexEntry,
+	deleteMemoryIndexNodes,
+	getIndexedNodeCount,
+	listMemoryIndexEntries,
+	setIndexedNodeCount,
+	upsertMemoryIndexEntries,
+} from "../database/models/memoryIndex.js";
 import type { SearchFilters } from "../schemas/common.js";
 import type { VectorMetadata } from "../schemas/eizen.js";
-import type { CreateMemory, SearchMemory } from "../schemas/memory.js";
-import type { EizenService } from "./EizenService.js";
-import { embeddingService } from "./EmbeddingService.js";
+import type {
+	CreateMemory,
+	DedupePolicy,
+	ImportRecord,
+	ListMemories,
+	Scoring,
+	SearchMemory,
+	SearchMode,
+	UpdateMemory,
+} from "../schemas/memory.js";
+import { collapseChunkHits } from "../utils/chunking.js";
+import { canReuseVector } from "../utils/importRecords.js";
+import { encodeListCursor } from "../utils/listCursor.js";
+import {
+	type ScoreBreakdown,
+	combineScores,
+	importanceScore,
+	recencyScore,
+	resolveScoring,
+} from "../utils/memoryScoring.js";
+import { matchesPredicate } from "../utils/metadataFilter.js";
+import type {
+	EizenService,
+	EizenStoredVector,
+	EizenUpdateResult,
+} from "./EizenService.js";
+import type { EmbeddingProviderName } from "./EmbeddingProviders.js";
+import { type EmbeddingResult, embeddingService } from "./EmbeddingService.js";
+import { KeywordIndex, fuseRankings } from "./KeywordIndex.js";
+import { rerankService } from "./RerankService.js";
+
+// Hybrid search ranks this many times k candidates from each source before fusing
+const HYBRID_CANDIDATE_FACTOR = 2;
+
+// Re-ranking and re-scoring reorder this many times k candidates, capped to bound model latency
+const RESCORE_CANDIDATE_FACTOR = 3;
+const MAX_RESCORE_CANDIDATES = 50;
+
+// A long memory is stored as several chunk vectors, which can fill several of
+// the top hits, so searches rank this many times k hits before collapsing them
+const CHUNK_CANDIDATE_FACTOR = 2;
+
+// Listing reads the memory index in pages of this many rows while applying filters,
+// and stops after examining MAX_LIST_SCANNED rows (the cursor resumes from there)
+const LIST_BATCH_SIZE = 100;
+const MAX_LIST_SCANNED = 1000;
+
+// Graph nodes read per scanVectors() call while syncing the memory index
+const LIST_SYNC_PAGE_SIZE = 100;
+
+// Graph nodes read per scanVectors() call while exporting
+const EXPORT_PAGE_SIZE = 100;
+
+// Memory index syncs in flight, per contract, shared by concurrent requests
+const listIndexSyncs = new Map<string, Promise<void>>();
+
+// Cosine similarity (1 - distance) from which a new memory counts as a duplicate
+const DEDUPE_THRESHOLD = Number(process.env.MEMORY_DEDUPE_THRESHOLD) || 0.95;
+
+/** A piece of a long memory, embedded on its own */
+interface EmbeddedChunk {
+	text: string;
+	embeddings: number[];
+}
+
+/** Best-matching chunk of a long memory found through one of its chunks */
+export interface MemoryHighlight {
+	chunkIndex: number;
+	content: string;
+}
 
 export interface MemoryResult {
 	id: number;
 	content?: string;
 	metadata?: VectorMetadata;
 	distance?: number;
+	score?: number; // BM25 score in keyword mode, fused RRF score in hybrid mode, combined score (0..1) with scoring
+	rerankScore?: number; // Cross-encoder relevance (0..1) when re-ranking was requested
+	scoreBreakdown?: ScoreBreakdown; // Per-field scores behind `score` when scoring was requested
+	highlight?: MemoryHighlight; // Set when a chunk of a long memory matched
+}
+
+export interface SearchMemoryResult {
+	mode: SearchMode;
+	memories: MemoryResult[];
+	candidatesScanned: number; // Nearest neighbours examined to find the memories
+	budgetExhausted: boolean; // True when fewer than k memories matched within the candidate budget
+}
+
+export interface ListMemoriesResult {
+	memories: MemoryResult[];
+	nextCursor: string | null; // Pass as `cursor` for the next page; null on the last page
+	scanned: number; // Index entries examined, including ones filtered out
+}
+
+/** One line of a memory export */
+export interface MemoryExportRecord {
+	id: number;
+	content?: string;
+	metadata?: VectorMetadata; // Without `content` and chunk bookkeeping
+	vector?: number[]; // Only when vectors were requested
+	provider?: EmbeddingProviderName; // Embedding provider and model of `vector`
+	model?: string;
 }
 
 export interface CreateMemoryResult {
 	success: boolean;
 	memoryId: number;
+	reused: boolean; // True when an existing near-duplicate was kept instead of inserting
+	similarity?: number; // Similarity to the reused memory
+	message: string;
+}
+
+export interface BatchCreateMemoryItemResult {
+	index: number; // Position of the memory in the request
+	success: boolean;
+	memoryId?: number;
+	reused?: boolean;
+	error?: string;
+}
+
+export interface BatchCreateMemoryResult {
+	success: boolean; // True when every memory was created
+	created: number;
+	failed: number;
+	results: BatchCreateMemoryItemResult[];
+	message: string;
+}
+
+export interface ImportMemoryResult {
+	index: number; // Position of the record in the input
+	success: boolean;
+	memoryId?: number;
+	reembedded: boolean; // False when the exported vector was stored as is
+	error?: string;
+}
+
+export interface UpdateMemoryResult {
+	success: boolean;
+	memoryId: number;
+	reembedded: boolean; // True when content changed and a new embedding was stored
+	message: string;
+}
+
+export interface DeleteMemoryResult {
+	success: boolean;
+	memoryId: number;
+	deletedAt: string;
 	message: string;
 }
 
 export interface MemoryStats {
 	totalMemories: number;
-	embeddingService: "xenova" | "unavailable";
+	embeddingService: EmbeddingProviderName | "unavailable";
 	isInitialized: boolean;
 }
 
@@ -30,7 +174,7 @@ export interface MemoryStats {
  * - Converting text into searchable vector embeddings
  * - Storing memories with rich metadata
  * - Performing semantic similarity searches
- * - Managing memory lifecycle and statistics
+ * - Managing memory lifecycle (updates, deletion) and statistics
  *
  * Architecture:
  * Text Input → EmbeddingService → Vector → EizenService → Storage
@@ -70,14 +214,31 @@ export class MemoryService {
 	 * Creates a new memory from text content
 	 *
 	 * Process:
-	 * 1. Converts text to vector embeddings using Xenova transformers
+	 * 1. Converts text to vector embeddings using the configured embedding provider
 	 * 2. Enhances metadata with system information
 	 * 3. Stores the vector in Eizen vector database
 	 *
+	 * Content longer than the embedding model's input is split into overlapping
+	 * token-aware chunks (see EmbeddingService.chunkText). Each chunk is stored
+	 * as a child vector whose metadata links it to the memory (`parentId`,
+	 * `chunkIndex`); the memory itself keeps the full content, the IDs of its
+	 * chunks (`chunkIds`) and the mean of the chunk embeddings as its vector.
+	 *
+	 * Before storing, the `dedupe` policy decides what happens when a memory
+	 * with a cosine similarity of at least MEMORY_DEDUPE_THRESHOLD (default
+	 * 0.95) already exists:
+	 * - insert (default): Store the new memory anyway
+	 * - skip: Keep the existing memory unchanged
+	 * - merge: Fold the new metadata into the existing memory (tags are
+	 *   unioned, the higher importance wins, missing keys are filled in)
+	 *
 	 * @param data - Memory creation parameters
 	 * @param data.content - The text content to store as memory
 	 * @param data.metadata - Optional metadata (tags, importance, etc.)
-	 * @returns Promise resolving to creation result with new memory ID
+	 * @param data.dedupe - Near-duplicate policy (default: "insert")
+	 * @param onStored - Called with the IDs of vectors as soon as they are
+	 * committed, before later steps that may still fail (see JobService)
+	 * @returns Promise resolving to creation result with the new, or reused, memory ID
 	 *
 	 * @throws {Error} When embedding generation or storage fails
 	 *
@@ -93,7 +254,10 @@ export class MemoryService {
 	 * });
 	 * ```
 	 */
-	async createMemory(data: CreateMemory): Promise<CreateMemoryResult> {
+	async createMemory(
+		data: CreateMemory,
+		onStored?: (vectorIds: number[]) => Promise<void>,
+	): Promise<CreateMemoryResult> {
 		try {
 			console.log(
 				`Creating memory from ${data.content.length} characters of content`,
@@ -102,7 +266,15 @@ export class MemoryService {
 			// Step 1: Convert human-readable text into numerical vectors
 			// This enables semantic similarity matching later
 			// NOTE: For now we are only embedding the content. Metadata embedding is still in consideration
-			const embeddings = await this.textToEmbeddings(data.content);
+			const { embeddings, chunks } = await this.embedContent(data.content);
+
+			const policy = data.dedupe ?? "insert";
+			if (policy !== "insert") {
+				const duplicate = await this.findDuplicate(embeddings);
+				if (duplicate) {
+					return await this.reuseDuplicate(duplicate, data, policy);
+				}
+			}
 
 			// Step 2: Enhance user-provided metadata with system metadata
 			// This ensures we have audit trail and content reference. More key-values can be added later
@@ -115,13 +287,38 @@ export class MemoryService {
 				vector: embeddings, // currently API received content == vector // metadata != vector
 				metadata: enhancedMetadata,
 			});
+			await onStored?.([result.vectorId]);
+
+			// Step 4: Store the chunks of long content as children of the memory
+			if (chunks.length > 0) {
+				let chunkIds: number[] = [];
+				try {
+					chunkIds = await this.storeChunks(
+						result.vectorId,
+						chunks,
+						enhancedMetadata,
+					);
+					await onStored?.(chunkIds);
+					await this.eizenService.updateVector(result.vectorId, {
+						metadata: { ...enhancedMetadata, chunkIds },
+					});
+				} catch (error) {
+					// Don't leave a memory behind that the caller was told failed
+					await this.discardVectors([...chunkIds, result.vectorId]);
+					throw error;
+				}
+			}
 
 			console.log(`Memory created successfully with ID: ${result.vectorId}`);
 
 			return {
 				success: true,
 				memoryId: result.vectorId,
-				message: `Memory created from ${data.content.length} characters of content`,
+				reused: false,
+				message:
+					chunks.length > 0
+						? `Memory created from ${data.content.length} characters of content in ${chunks.length} chunks`
+						: `Memory created from ${data.content.length} characters of content`,
 			};
 		} catch (error) {
 			console.error("Failed to create memory:", error);
@@ -131,24 +328,268 @@ export class MemoryService {
 		}
 	}
 
+	/**
+	 * Creates many memories at once
+	 *
+	 * Process:
+	 * 1. Converts all contents to embeddings in a single model pass
+	 * 2. Enhances each item's metadata with system information
+	 * 3. Stores all vectors through EizenService.insertVectors (one contract interaction)
+	 *
+	 * Contents that need chunking or deduplication are created one by one
+	 * through createMemory after the batch. Failures are reported per item instead of failing the
+	 * whole batch.
+	 *
+	 * @param items - Memory creation parameters, in order
+	 * @returns Promise resolving to per-item results with new memory IDs
+	 *
+	 * @throws {Error} When embedding generation fails for the batch
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await memoryService.createMemories([
+	 *   { content: "User prefers dark mode", metadata: { tags: ["preference"] } },
+	 *   { content: "User works remotely on Fridays" },
+	 * ]);
+	 * console.log(`${result.created} created, ${result.failed} failed`);
+	 * ```
+	 */
+	async createMemories(
+		items: CreateMemory[],
+	): Promise<BatchCreateMemoryResult> {
+		try {
+			console.log(`Creating batch of ${items.length} memories`);
+
+			// Long contents need chunking, which createMemory does per memory
+			const chunkCounts = await Promise.all(
+				items.map(
+					async (item) =>
+						(await embeddingService.chunkText(item.content)).length,
+				),
+			);
+			const isSingle = (item: CreateMemory, index: number) =>
+				chunkCounts[index] === 1 && (item.dedupe ?? "insert") === "insert";
+			const single = items
+				.map((item, index) => ({ item, index }))
+				.filter(({ item, index }) => isSingle(item, index));
+
+			const results: BatchCreateMemoryItemResult[] = [];
+
+			if (single.length > 0) {
+				// Step 1: One model pass for the whole batch
+				const embeddings = await embeddingService.batchTextToEmbeddings(
+					single.map(({ item }) => item.content),
+				);
+				await this.assertCompatibleEmbeddings(embeddings[0], true);
+
+				// Step 2 & 3: Same metadata enhancement as createMemory, then bulk insert
+				const insertResult = await this.eizenService.insertVectors(
+					single.map(({ item }, position) => ({
+						vector: embeddings[position].embeddings,
+						metadata: {
+							...item.metadata,
+							content: item.content,
+						},
+					})),
+				);
+
+				for (const result of insertResult.results) {
+					results.push({
+						index: single[result.index].index,
+						success: result.success,
+						memoryId: result.vectorId,
+						error: result.error,
+					});
+				}
+			}
+
+			for (const [index, item] of items.entries()) {
+				if (isSingle(item, index)) {
+					continue;
+				}
+				try {
+					const created = await this.createMemory(item);
+					results.push({
+						index,
+						success: true,
+						memoryId: created.memoryId,
+						reused: created.reused,
+					});
+				} catch (error) {
+					results.push({
+						index,
+						success: false,
+						error: error instanceof Error ? error.message : "Unknown error",
+					});
+				}
+			}
+
+			results.sort((a, b) => a.index - b.index);
+			const created = results.filter((result) => result.success).length;
+			const failed = results.length - created;
+
+			console.log(`Batch created ${created} memories (${failed} failed)`);
+
+			return {
+				success: failed === 0,
+				created,
+				failed,
+				results,
+				message: `Created ${created} of ${items.length} memories`,
+			};
+		} catch (error) {
+			console.error("Failed to create memory batch:", error);
+			throw new Error(
+				`Failed to create memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Imports exported memories into this contract
+	 *
+	 * Records carrying a vector from the current embedding provider and model
+	 * (and short enough not to need chunking) are stored with that vector in
+	 * one bulk insert. All other records are re-embedded through
+	 * createMemories, which also chunks long content.
+	 *
+	 * @param records - Validated import records, in order
+	 * @returns Promise resolving to per-record results
+	 *
+	 * @throws {Error} When embedding generation or the bulk insert fails as a whole
+	 *
+	 * @example
+	 * ```typescript
+	 * const results = await memoryService.importMemories([
+	 *   { content: "User prefers dark mode", vector, provider: "xenova", model: "Xenova/all-MiniLM-L6-v2" },
+	 *   { content: "User works remotely on Fridays", dedupe: "insert" },
+	 * ]);
+	 * ```
+	 */
+	async importMemories(records: ImportRecord[]): Promise<ImportMemoryResult[]> {
+		try {
+			const info = embeddingService.getInfo();
+			const profile = await this.eizenService.getEmbeddingProfile();
+			const chunkCounts = await Promise.all(
+				records.map(
+					async (record) =>
+						(await embeddingService.chunkText(record.content)).length,
+				),
+			);
+
+			const reusable: {
+				index: number;
+				vector: number[];
+				record: ImportRecord;
+			}[] = [];
+			const reembed: { index: number; record: ImportRecord }[] = [];
+
+			records.forEach((record, index) => {
+				if (canReuseVector(record, info, profile, chunkCounts[index])) {
+					reusable.push({ index, vector: record.vector, record });
+				} else {
+					reembed.push({ index, record });
+				}
+			});
+
+			const results: ImportMemoryResult[] = [];
+
+			if (reusable.length > 0) {
+				await this.assertCompatibleEmbeddings(
+					{
+						embeddings: reusable[0].vector,
+						dimensions: reusable[0].vector.length,
+						provider: info.provider,
+						model: info.model,
+					},
+					true,
+				);
+
+				const inserted = await this.eizenService.insertVectors(
+					reusable.map(({ vector, record }) => ({
+						vector,
+						metadata: { ...record.metadata, content: record.content },
+					})),
+				);
+
+				for (const result of inserted.results) {
+					results.push({
+						index: reusable[result.index].index,
+						success: result.success,
+						memoryId: result.vectorId,
+						reembedded: false,
+						error: result.error,
+					});
+				}
+			}
+
+			if (reembed.length > 0) {
+				const created = await this.createMemories(
+					reembed.map(({ record }) => ({
+						content: record.content,
+						metadata: record.metadata,
+						dedupe: "insert",
+					})),
+				);
+
+				for (const result of created.results) {
+					results.push({
+						index: reembed[result.index].index,
+						success: result.success,
+						memoryId: result.memoryId,
+						reembedded: true,
+						error: result.error,
+					});
+				}
+			}
+
+			return results.sort((a, b) => a.index - b.index);
+		} catch (error) {
+			console.error("Failed to import memories:", error);
+			throw new Error(
+				`Failed to import memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
 	/**
 	 * Searches memories using natural language queries
 	 *
-	 * Uses semantic similarity to find relevant memories even when
-	 * exact keywords don't match. For example, searching "coffee"
-	 * might return memories about "espresso" or "caffeine".
+	 * Three modes are supported:
+	 * - semantic (default): Vector similarity, finds related memories even when
+	 *   exact keywords don't match ("coffee" → "espresso")
+	 * - keyword: BM25 over memory content, finds exact identifiers such as
+	 *   ticket numbers, file paths and names
+	 * - hybrid: Both rankings fused with reciprocal rank fusion
+	 *
+	 * Hits on chunks of a long memory are collapsed into the memory itself,
+	 * with the best-matching chunk returned as `highlight`.
+	 *
+	 * With `rerank: true`, a wider pool of candidates is re-scored by a local
+	 * cross-encoder (see RerankService) and the top k by `rerankScore` are
+	 * returned. Original `distance`/`score` values are kept.
+	 *
+	 * With `scoring`, candidates are ranked by a weighted combination of
+	 * similarity, recency (exponential decay with a half-life) and importance
+	 * (see utils/memoryScoring.ts). Each result's `score` becomes the combined
+	 * score and `scoreBreakdown` holds the per-field scores. Presets:
+	 * "similarity", "balanced" (default), "recent-first", "important-first".
 	 *
 	 * Process:
-	 * 1. Converts search query to vector embeddings
-	 * 2. Performs similarity search in vector space
-	 * 3. Applies optional filters (tags, dates, etc.)
-	 * 4. Returns ranked results by similarity
+	 * 1. Converts search query to vector embeddings (semantic/hybrid)
+	 * 2. Performs similarity search in vector space and/or the keyword index,
+	 *    applying optional filters (tags, dates, etc.) while searching so that
+	 *    k matches are found when they exist
+	 * 3. Returns ranked results
 	 *
 	 * @param data - Search parameters
 	 * @param data.query - Natural language search query
 	 * @param data.k - Maximum number of results to return
+	 * @param data.mode - Ranking mode (default: "semantic")
+	 * @param data.rerank - Re-rank candidates with the cross-encoder (default: false)
+	 * @param data.scoring - Combine similarity with recency and importance (optional)
 	 * @param data.filters - Optional filters for metadata
-	 * @returns Promise resolving to array of matching memories
+	 * @returns Promise resolving to matching memories and the number of candidates scanned
 	 *
 	 * @throws {Error} When embedding generation or search fails
 	 *
@@ -157,6 +598,7 @@ export class MemoryService {
 	 * const results = await memoryService.searchMemories({
 	 *   query: "client communication preferences",
 	 *   k: 10,
+	 *   mode: "hybrid",
 	 *   filters: {
 	 *     tags: ["client-info"],
 	 *     importance_min: 5,
@@ -165,38 +607,83 @@ export class MemoryService {
 	 * });
 	 * ```
 	 */
-	async searchMemories(data: SearchMemory): Promise<MemoryResult[]> {
+	async searchMemories(data: SearchMemory): Promise<SearchMemoryResult> {
 		try {
-			console.log(`Searching memories with query: "${data.query}"`);
+			const mode = data.mode ?? "semantic";
+			const limit = data.k || 10; // Limit number of results (default is 10)
 
-			// Step 1: Convert search query into the same vector space as stored memories
-			// This enables semantic comparison (similarity matching)
-			const queryEmbeddings = await this.textToEmbeddings(data.query);
+			// Re-ranking and scoring reorder a wider candidate pool before cutting to k
+			const pool =
+				data.rerank || data.scoring
+					? Math.min(limit * RESCORE_CANDIDATE_FACTOR, MAX_RESCORE_CANDIDATES)
+					: limit;
+			// Hits on chunks of the same memory collapse into one result
+			const k = pool * CHUNK_CANDIDATE_FACTOR;
+			console.log(`Searching memories (${mode}) with query: "${data.query}"`);
 
-			// Step 2: Perform vector similarity search in Eizen
-			// Uses cosine similarity or similar algorithms to find closest matches
-			const searchResults = await this.eizenService.searchVectors({
-				query: queryEmbeddings,
-				k: data.k || 10, // Limit number of results (default is 10)
-			});
+			// Metadata filters (tags, dates, importance, etc.) are applied while
+			// searching, so each search widens until k memories match
+			const { filters } = data;
+			const filter = filters
+				? (metadata?: VectorMetadata) => this.matchesFilters(metadata, filters)
+				: undefined;
 
-			// Step 3: Transform Eizen results into our memory format
-			// Extract content from metadata for easier access
-			const memories: MemoryResult[] = searchResults.map((result) => ({
-				id: result.id,
-				content: (result.metadata?.content as string) || undefined,
-				metadata: result.metadata,
-				distance: result.distance,
-			}));
+			let result: SearchMemoryResult;
+			if (mode === "keyword") {
+				const keyword = await this.keywordSearch(data.query, k, filter);
+				result = {
+					mode,
+					memories: keyword.memories,
+					candidatesScanned: keyword.documentsScored,
+					budgetExhausted: false,
+				};
+			} else if (mode === "hybrid") {
+				const candidates = k * HYBRID_CANDIDATE_FACTOR;
+				const semantic = await this.semanticSearch(
+					data.query,
+					candidates,
+					filter,
+				);
+				const keyword = await this.keywordSearch(
+					data.query,
+					candidates,
+					filter,
+				);
+				result = {
+					mode,
+					memories: fuseRankings([semantic.memories, keyword.memories], k),
+					candidatesScanned:
+						semantic.candidatesScanned + keyword.documentsScored,
+					budgetExhausted: semantic.budgetExhausted,
+				};
+			} else {
+				const semantic = await this.semanticSearch(data.query, k, filter);
+				result = { mode, ...semantic };
+			}
+
+			result.memories = await this.collapseChunks(result.memories, pool);
 
-			// Step 4: Apply additional filters based on metadata
-			// This allows filtering by tags, dates, importance, etc.
-			// NOTE: Still theoretical. may not work properly
-			const filteredMemories = this.applyFilters(memories, data.filters);
+			if (data.rerank) {
+				result.memories = await this.rerankMemories(
+					data.query,
+					result.memories,
+					data.scoring ? pool : limit,
+				);
+			}
+
+			if (data.scoring) {
+				result.memories = this.applyScoring(
+					result.memories,
+					data.scoring,
+					limit,
+				);
+			}
 
-			console.log(`Found ${filteredMemories.length} relevant memories`);
+			console.log(
+				`Found ${result.memories.length} relevant memories (${result.candidatesScanned} candidates scanned)`,
+			);
 
-			return filteredMemories;
+			return result;
 		} catch (error) {
 			console.error("Failed to search memories:", error);
 			throw new Error(
@@ -205,6 +692,186 @@ export class MemoryService {
 		}
 	}
 
+	/**
+	 * Rebuilds this contract's keyword index from the contract's stored metadata
+	 *
+	 * The index is normally kept up to date incrementally; a rebuild is only
+	 * needed to recover from a corrupted or inconsistent index.
+	 *
+	 * @returns Promise resolving to the number of indexed memories
+	 *
+	 * @example
+	 * ```typescript
+	 * const indexed = await memoryService.rebuildKeywordIndex();
+	 * console.log(`${indexed} memories indexed`);
+	 * ```
+	 */
+	async rebuildKeywordIndex(): Promise<number> {
+		try {
+			return await this.getKeywordIndex().rebuild(this.eizenService);
+		} catch (error) {
+			console.error("Failed to rebuild keyword index:", error);
+			throw new Error(
+				`Failed to rebuild keyword index: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Lists stored memories page by page
+	 *
+	 * Served from the Neon-side memory index (see database/schemas/memoryIndex.ts),
+	 * which mirrors each memory's metadata and sort keys. Before reading, the
+	 * index catches up with graph nodes written since the last listing by
+	 * reading them from the contract, and drops tombstoned ones. Chunks of long
+	 * memories are not listed on their own.
+	 *
+	 * Filters are the same as for search. Pages may hold fewer than `limit`
+	 * memories when filters reject many entries; keep following `nextCursor`
+	 * until it is null.
+	 *
+	 * @param data - Listing parameters
+	 * @param data.limit - Maximum number of memories per page
+	 * @param data.cursor - Position to resume from, decoded from the previous page's nextCursor
+	 * @param data.sort - Sort key: "id" (insertion order), "timestamp" or "importance"
+	 * @param data.order - "asc" or "desc"
+	 * @param data.filters - Optional metadata filters
+	 * @returns Promise resolving to the page of memories and the cursor for the next one
+	 *
+	 * @throws {Error} When the index cannot be synced or read
+	 *
+	 * @example
+	 * ```typescript
+	 * const page = await memoryService.listMemories({
+	 *   limit: 20,
+	 *   sort: "importance",
+	 *   order: "desc",
+	 * });
+	 * console.log(page.memories.length, page.nextCursor);
+	 * ```
+	 */
+	async listMemories(data: ListMemories): Promise<ListMemoriesResult> {
+		try {
+			const contractId = this.eizenService.getContractId();
+			await this.syncListIndex();
+
+			const { filters, sort, order } = data;
+			const memories: MemoryResult[] = [];
+			let after = data.cursor;
+			let scanned = 0;
+			let exhausted = false;
+
+			while (memories.length < data.limit && scanned < MAX_LIST_SCANNED) {
+				const batchSize = filters
+					? LIST_BATCH_SIZE
+					: data.limit - memories.length;
+				const entries = await listMemoryIndexEntries(contractId, {
+					sort,
+					order,
+					after,
+					limit: batchSize,
+				});
+
+				for (const entry of entries) {
+					scanned++;
+					after = { sort, order, ...sortPosition(entry, sort) };
+
+					const metadata = (entry.metadata ?? undefined) as VectorMetadata;
+					if (filters && !this.matchesFilters(metadata, filters)) {
+						continue;
+					}
+
+					memories.push({
+						id: entry.memoryId,
+						content: (metadata?.content as string) || undefined,
+						metadata,
+					});
+					if (memories.length === data.limit) {
+						break;
+					}
+				}
+
+				// A short batch that didn't fill the page means the index is used up
+				if (entries.length < batchSize && memories.length < data.limit) {
+					exhausted = true;
+					break;
+				}
+			}
+
+			return {
+				memories,
+				nextCursor: !exhausted && after ? encodeListCursor(after) : null,
+				scanned,
+			};
+		} catch (error) {
+			console.error("Failed to list memories:", error);
+			throw new Error(
+				`Failed to list memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Exports every memory of this contract, one record at a time
+	 *
+	 * Reads the contract a page of graph nodes at a time (see
+	 * EizenService.scanVectors), so memory use does not grow with the size of
+	 * the contract. Chunks of long memories are left out; they are recreated
+	 * from the content on import.
+	 *
+	 * @param options.includeVectors - Include each memory's raw vector and the embedding model it came from
+	 * @returns Async generator of export records in insertion order
+	 *
+	 * @throws {Error} When the contract cannot be read
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const record of memoryService.exportMemories()) {
+	 *   console.log(record.id, record.content);
+	 * }
+	 * ```
+	 */
+	async *exportMemories(
+		options: { includeVectors?: boolean } = {},
+	): AsyncGenerator<MemoryExportRecord> {
+		const profile = options.includeVectors
+			? await this.eizenService.getEmbeddingProfile()
+			: null;
+
+		let fromNodeId: number | null = 0;
+		while (fromNodeId !== null) {
+			const page = await this.eizenService.scanVectors(
+				fromNodeId,
+				EXPORT_PAGE_SIZE,
+			);
+
+			for (const vector of page.vectors) {
+				if (vector.metadata?.parentId !== undefined) {
+					continue;
+				}
+
+				yield {
+					id: vector.id,
+					content: (vector.metadata?.content as string) || undefined,
+					metadata: {
+						...vector.metadata,
+						content: undefined,
+						chunkIds: undefined,
+					},
+					...(options.includeVectors
+						? {
+								vector: vector.point,
+								provider: profile?.provider,
+								model: profile?.model,
+							}
+						: {}),
+				};
+			}
+
+			fromNodeId = page.nextNodeId;
+		}
+	}
+
 	/**
 	 * Retrieves a specific memory by its unique identifier
 	 *
@@ -249,6 +916,175 @@ export class MemoryService {
 		}
 	}
 
+	/**
+	 * Updates an existing memory in place, keeping its ID
+	 *
+	 * Process:
+	 * 1. Loads the current memory
+	 * 2. Merges the changed metadata into the existing metadata
+	 * 3. Re-embeds the content if it changed
+	 * 4. Writes the update through EizenService.updateVector
+	 *
+	 * @param memoryId - The unique ID of the memory to update
+	 * @param data - Changed content and/or metadata
+	 * @returns Promise resolving to update result or null if not found
+	 *
+	 * @throws {Error} When embedding generation or the update fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await memoryService.updateMemory(123, {
+	 *   content: "User prefers light mode",
+	 *   metadata: { importance: 9 }
+	 * });
+	 * ```
+	 */
+	async updateMemory(
+		memoryId: number,
+		data: UpdateMemory,
+	): Promise<UpdateMemoryResult | null> {
+		try {
+			console.log(`Updating memory with ID: ${memoryId}`);
+
+			const existing = await this.getMemory(memoryId);
+			if (!existing) {
+				return null;
+			}
+
+			const contentChanged =
+				data.content !== undefined && data.content !== existing.content;
+			const content = data.content ?? existing.content;
+
+			// Shallow merge: keys sent by the caller replace existing keys
+			const mergedMetadata: VectorMetadata = {
+				...existing.metadata,
+				...data.metadata,
+				content,
+				updatedAt: new Date().toISOString(),
+			};
+			const previousChunkIds = chunkIdsOf(existing.metadata);
+
+			// Only pay for a new embedding (and a new graph node) when content changed
+			let embeddings: number[] | undefined;
+			if (contentChanged && content) {
+				const embedded = await this.embedContent(content);
+				embeddings = embedded.embeddings;
+
+				// New content gets new chunks; the old ones are removed once replaced
+				mergedMetadata.chunkIds =
+					embedded.chunks.length > 0
+						? await this.storeChunks(memoryId, embedded.chunks, mergedMetadata)
+						: undefined;
+			}
+
+			const newChunkIds = contentChanged ? chunkIdsOf(mergedMetadata) : [];
+			let result: EizenUpdateResult | null;
+			try {
+				result = await this.eizenService.updateVector(memoryId, {
+					vector: embeddings,
+					metadata: mergedMetadata,
+				});
+			} catch (error) {
+				await this.discardVectors(newChunkIds);
+				throw error;
+			}
+
+			if (!result) {
+				await this.discardVectors(newChunkIds);
+				return null;
+			}
+
+			// Re-embedded content is picked up by the next keyword index sync,
+			// metadata-only changes have to be applied to the indexed node
+			await this.updateListIndex(() =>
+				upsertMemoryIndexEntries([
+					toIndexEntry(this.eizenService.getContractId(), {
+						id: memoryId,
+						nodeId: result.revisionId,
+						metadata: mergedMetadata,
+					}),
+				]),
+			);
+
+			if (contentChanged) {
+				await this.deleteChunks(previousChunkIds);
+			} else {
+				this.getKeywordIndex().updateMetadata(
+					result.revisionId,
+					mergedMetadata,
+				);
+				// Chunks carry the memory's metadata so that filters apply to them
+				await this.updateChunkMetadata(previousChunkIds, data.metadata);
+			}
+
+			console.log(`Memory ${memoryId} updated successfully`);
+
+			return {
+				success: true,
+				memoryId,
+				reembedded: contentChanged,
+				message: contentChanged
+					? `Memory ${memoryId} content re-embedded and updated`
+					: `Memory ${memoryId} metadata updated`,
+			};
+		} catch (error) {
+			console.error(`Failed to update memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to update memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Deletes a memory so it is no longer returned by search or lookup
+	 *
+	 * The underlying vector is tombstoned rather than removed from the HNSW
+	 * graph (see EizenService.deleteVector), which keeps the graph navigable
+	 * for the remaining memories. Chunks of a long memory are deleted with it.
+	 *
+	 * @param memoryId - The unique ID of the memory to delete
+	 * @returns Promise resolving to deletion result or null if not found
+	 *
+	 * @throws {Error} When the delete operation fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await memoryService.deleteMemory(123);
+	 * if (!result) {
+	 *   console.log("Memory not found");
+	 * }
+	 * ```
+	 */
+	async deleteMemory(memoryId: number): Promise<DeleteMemoryResult | null> {
+		try {
+			console.log(`Deleting memory with ID: ${memoryId}`);
+
+			const existing = await this.eizenService.getVector(memoryId);
+			const result = await this.eizenService.deleteVector(memoryId);
+
+			if (!result) {
+				return null;
+			}
+
+			await this.deleteChunks(chunkIdsOf(existing?.metadata));
+			await this.updateListIndex(() =>
+				deleteMemoryIndexEntry(this.eizenService.getContractId(), memoryId),
+			);
+
+			return {
+				success: true,
+				memoryId,
+				deletedAt: result.deletedAt,
+				message: `Memory ${memoryId} deleted successfully`,
+			};
+		} catch (error) {
+			console.error(`Failed to delete memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to delete memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
 	/**
 	 * Retrieves system statistics and health information
 	 *
@@ -274,7 +1110,7 @@ export class MemoryService {
 			return {
 				totalMemories: eizenStats.totalVectors,
 				embeddingService: embeddingInfo.isInitialized
-					? "xenova"
+					? embeddingInfo.provider
 					: "unavailable",
 				isInitialized: eizenStats.isInitialized && embeddingInfo.isInitialized,
 			};
@@ -294,24 +1130,533 @@ export class MemoryService {
 	// directly by external callers.
 	// ============================================================================
 
+	/**
+	 * Runs a filtered vector similarity search for a text query
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async semanticSearch(
+		query: string,
+		k: number,
+		filter?: (metadata?: VectorMetadata) => boolean,
+	): Promise<Omit<SearchMemoryResult, "mode">> {
+		// Convert search query into the same vector space as stored memories
+		// This enables semantic comparison (similarity matching)
+		const queryEmbeddings = await this.textToEmbeddings(query);
+
+		const search = await this.eizenService.searchVectorsFiltered(
+			{ query: queryEmbeddings, k },
+			filter,
+		);
+
+		// Transform Eizen results into our memory format
+		// Extract content from metadata for easier access
+		return {
+			memories: search.results.map((result) => ({
+				id: result.id,
+				content: (result.metadata?.content as string) || undefined,
+				metadata: result.metadata,
+				distance: result.distance,
+			})),
+			candidatesScanned: search.candidatesScanned,
+			budgetExhausted: search.budgetExhausted,
+		};
+	}
+
+	/**
+	 * Runs a BM25 keyword search over this contract's memory contents
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async keywordSearch(
+		query: string,
+		k: number,
+		filter?: (metadata?: VectorMetadata) => boolean,
+	): Promise<{ memories: MemoryResult[]; documentsScored: number }> {
+		const index = this.getKeywordIndex();
+		await index.sync(this.eizenService);
+
+		const { results, documentsScored } = index.search(query, k, filter);
+
+		return {
+			memories: results.map((result) => ({
+				id: result.id,
+				content: (result.metadata?.content as string) || undefined,
+				metadata: result.metadata,
+				score: result.score,
+			})),
+			documentsScored,
+		};
+	}
+
+	/**
+	 * Reorders search candidates by cross-encoder relevance to the query
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async rerankMemories(
+		query: string,
+		memories: MemoryResult[],
+		k: number,
+	): Promise<MemoryResult[]> {
+		// Chunked memories are scored on their best chunk, which fits the model
+		const scores = await rerankService.score(
+			query,
+			memories.map(
+				(memory) => memory.highlight?.content ?? memory.content ?? "",
+			),
+		);
+
+		return memories
+			.map((memory, index) => ({ ...memory, rerankScore: scores[index] }))
+			.sort((a, b) => b.rerankScore - a.rerankScore)
+			.slice(0, k);
+	}
+
+	/**
+	 * Ranks candidates by similarity combined with recency and importance
+	 *
+	 * Similarity is the cross-encoder relevance when re-ranked, the cosine
+	 * similarity in semantic mode, and otherwise the BM25/RRF score relative
+	 * to the best candidate.
+	 *
+	 * @private This is an internal helper method
+	 */
+	private applyScoring(
+		memories: MemoryResult[],
+		scoring: Scoring,
+		k: number,
+	): MemoryResult[] {
+		const config = resolveScoring(scoring);
+		const now = Date.now();
+
+		const useRerank = memories.every(
+			(memory) => memory.rerankScore !== undefined,
+		);
+		const useDistance = memories.every(
+			(memory) => memory.distance !== undefined,
+		);
+		const bestScore = Math.max(
+			0,
+			...memories.map((memory) => memory.score ?? 0),
+		);
+
+		const similarityOf = (memory: MemoryResult): number => {
+			if (useRerank) {
+				return memory.rerankScore ?? 0;
+			}
+			if (useDistance) {
+				return Math.min(1, Math.max(0, 1 - (memory.distance ?? 1)));
+			}
+			return bestScore > 0 ? (memory.score ?? 0) / bestScore : 0;
+		};
+
+		return memories
+			.map((memory) => {
+				const scoreBreakdown: ScoreBreakdown = {
+					similarity: similarityOf(memory),
+					recency: recencyScore(memory.metadata, config.halfLifeDays, now),
+					importance: importanceScore(memory.metadata),
+				};
+				return {
+					...memory,
+					score: combineScores(scoreBreakdown, config.weights),
+					scoreBreakdown,
+				};
+			})
+			.sort((a, b) => b.score - a.score)
+			.slice(0, k);
+	}
+
+	/**
+	 * Catches the memory index up with the contract
+	 *
+	 * Copies graph nodes written since the last sync (new memories and
+	 * re-embedded ones), then drops entries whose node has been tombstoned.
+	 * Metadata-only updates and deletes made through this service are applied
+	 * to the index directly. Concurrent callers share a single sync.
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async syncListIndex(): Promise<void> {
+		const contractId = this.eizenService.getContractId();
+
+		let sync = listIndexSyncs.get(contractId);
+		if (!sync) {
+			sync = this.runListIndexSync(contractId).finally(() => {
+				listIndexSyncs.delete(contractId);
+			});
+			listIndexSyncs.set(contractId, sync);
+		}
+
+		await sync;
+	}
+
+	/**
+	 * @private This is an internal helper method
+	 */
+	private async runListIndexSync(contractId: string): Promise<void> {
+		let fromNodeId: number | null = await getIndexedNodeCount(contractId);
+		let indexedNodes = false;
+
+		while (fromNodeId !== null) {
+			const page = await this.eizenService.scanVectors(
+				fromNodeId,
+				LIST_SYNC_PAGE_SIZE,
+			);
+			if (page.nodeCount <= fromNodeId) {
+				break;
+			}
+
+			await upsertMemoryIndexEntries(
+				page.vectors
+					.filter((vector) => vector.metadata?.parentId === undefined)
+					.map((vector) => toIndexEntry(contractId, vector)),
+			);
+			await setIndexedNodeCount(contractId, page.nextNodeId ?? page.nodeCount);
+
+			indexedNodes = true;
+			fromNodeId = page.nextNodeId;
+		}
+
+		// Replaced and deleted memories leave tombstoned nodes behind
+		if (indexedNodes) {
+			await deleteMemoryIndexNodes(
+				contractId,
+				await this.eizenService.listTombstones(),
+			);
+		}
+	}
+
+	/**
+	 * Applies a write to the memory index without failing the memory operation
+	 *
+	 * The index is derived data: an entry that could not be updated is
+	 * corrected by a later sync (new nodes) or update of the memory.
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async updateListIndex(write: () => Promise<void>): Promise<void> {
+		try {
+			await write();
+		} catch (error) {
+			console.warn("Failed to update memory index:", error);
+		}
+	}
+
+	/**
+	 * Gets the keyword index shared by all requests for this contract
+	 *
+	 * @private This is an internal helper method
+	 */
+	private getKeywordIndex(): KeywordIndex {
+		return KeywordIndex.forContract(this.eizenService.getContractId());
+	}
+
+	/**
+	 * Finds the stored memory most similar to an embedding, if it is a near-duplicate
+	 *
+	 * Chunks are ignored: a duplicate is always a whole memory.
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async findDuplicate(
+		embeddings: number[],
+	): Promise<{ memory: MemoryResult; similarity: number } | null> {
+		const search = await this.eizenService.searchVectorsFiltered(
+			{ query: embeddings, k: 1 },
+			(metadata) => metadata?.parentId === undefined,
+		);
+
+		const [nearest] = search.results;
+		if (!nearest) {
+			return null;
+		}
+
+		// Eizen distances are cosine distances
+		const similarity = 1 - nearest.distance;
+		if (similarity < DEDUPE_THRESHOLD) {
+			return null;
+		}
+
+		return {
+			memory: {
+				id: nearest.id,
+				content: (nearest.metadata?.content as string) || undefined,
+				metadata: nearest.metadata,
+			},
+			similarity,
+		};
+	}
+
+	/**
+	 * Applies the skip or merge policy to a near-duplicate of a new memory
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async reuseDuplicate(
+		duplicate: { memory: MemoryResult; similarity: number },
+		data: CreateMemory,
+		policy: Exclude<DedupePolicy, "insert">,
+	): Promise<CreateMemoryResult> {
+		const { memory, similarity } = duplicate;
+		console.log(
+			`Memory ${memory.id} is a near-duplicate (similarity ${similarity.toFixed(3)}), policy: ${policy}`,
+		);
+
+		if (policy === "merge" && data.metadata) {
+			const existing = memory.metadata ?? {};
+			const incoming = data.metadata;
+
+			// Keys the existing memory lacks are filled in, the rest is kept
+			const changes: UpdateMemory["metadata"] = Object.fromEntries(
+				Object.entries(incoming).filter(
+					([key, value]) => value !== undefined && existing[key] === undefined,
+				),
+			);
+
+			const tags = [
+				...new Set([...(existing.tags ?? []), ...(incoming.tags ?? [])]),
+			];
+			if (tags.length > (existing.tags?.length ?? 0)) {
+				changes.tags = tags;
+			}
+			if ((incoming.importance ?? 0) > (existing.importance ?? 0)) {
+				changes.importance = incoming.importance;
+			}
+
+			if (Object.keys(changes).length > 0) {
+				await this.updateMemory(memory.id, { metadata: changes });
+			}
+		}
+
+		return {
+			success: true,
+			memoryId: memory.id,
+			reused: true,
+			similarity,
+			message:
+				policy === "merge"
+					? `Merged into existing memory ${memory.id}`
+					: `Skipped: near-duplicate of memory ${memory.id}`,
+		};
+	}
+
+	/**
+	 * Embeds memory content, chunking it when it is too long for the model
+	 *
+	 * Chunked content is represented by the normalised mean of its chunk
+	 * embeddings, so the memory itself still matches queries about its
+	 * overall topic.
+	 *
+	 * @private This is an internal helper method
+	 * @returns The memory's embedding, plus its embedded chunks (empty when the content fits)
+	 */
+	private async embedContent(
+		content: string,
+	): Promise<{ embeddings: number[]; chunks: EmbeddedChunk[] }> {
+		const chunks = await embeddingService.chunkText(content);
+
+		if (chunks.length <= 1) {
+			return {
+				embeddings: await this.textToEmbeddings(content, true),
+				chunks: [],
+			};
+		}
+
+		console.log(
+			`Splitting ${content.length} characters into ${chunks.length} chunks`,
+		);
+
+		const results = await embeddingService.batchTextToEmbeddings(
+			chunks.map((chunk) => chunk.text),
+		);
+		await this.assertCompatibleEmbeddings(results[0], true);
+
+		const mean = new Array<number>(results[0].dimensions).fill(0);
+		for (const result of results) {
+			result.embeddings.forEach((value, i) => {
+				mean[i] += value / results.length;
+			});
+		}
+		const norm = Math.hypot(...mean) || 1;
+
+		return {
+			embeddings: mean.map((value) => value / norm),
+			chunks: chunks.map((chunk, index) => ({
+				text: chunk.text,
+				embeddings: results[index].embeddings,
+			})),
+		};
+	}
+
+	/**
+	 * Stores the chunks of a memory as child vectors in one contract interaction
+	 *
+	 * Chunks copy the memory's metadata so search filters apply to them.
+	 *
+	 * @private This is an internal helper method
+	 * @returns The vector IDs of the chunks, in chunk order
+	 */
+	private async storeChunks(
+		parentId: number,
+		chunks: EmbeddedChunk[],
+		parentMetadata: VectorMetadata,
+	): Promise<number[]> {
+		const result = await this.eizenService.insertVectors(
+			chunks.map((chunk, chunkIndex) => ({
+				vector: chunk.embeddings,
+				metadata: {
+					...parentMetadata,
+					content: chunk.text,
+					chunkIds: undefined,
+					parentId,
+					chunkIndex,
+				},
+			})),
+		);
+
+		if (!result.success) {
+			await this.discardVectors(
+				result.results
+					.filter((item) => item.success)
+					.map((item) => item.vectorId as number),
+			);
+			throw new Error(
+				`Failed to store ${result.failed} of ${chunks.length} chunks`,
+			);
+		}
+
+		return result.results
+			.sort((a, b) => a.index - b.index)
+			.map((item) => item.vectorId as number);
+	}
+
+	/**
+	 * Deletes vectors stored by a write that then failed
+	 *
+	 * Cleanup errors are logged rather than thrown, so the caller can report
+	 * the error that made the write fail.
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async discardVectors(vectorIds: number[]): Promise<void> {
+		for (const vectorId of vectorIds) {
+			try {
+				await this.eizenService.deleteVector(vectorId);
+			} catch (error) {
+				console.error(`Failed to clean up vector ${vectorId}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * Deletes the chunks of a memory
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async deleteChunks(chunkIds: number[]): Promise<void> {
+		for (const chunkId of chunkIds) {
+			await this.eizenService.deleteVector(chunkId);
+		}
+	}
+
+	/**
+	 * Applies a metadata-only update of a memory to its chunks
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async updateChunkMetadata(
+		chunkIds: number[],
+		changes: VectorMetadata,
+	): Promise<void> {
+		if (!changes || Object.keys(changes).length === 0) {
+			return;
+		}
+
+		for (const chunkId of chunkIds) {
+			const chunk = await this.eizenService.getVector(chunkId);
+			if (!chunk) {
+				continue;
+			}
+
+			const metadata: VectorMetadata = {
+				...chunk.metadata,
+				...changes,
+				content: chunk.metadata?.content,
+				parentId: chunk.metadata?.parentId,
+				chunkIndex: chunk.metadata?.chunkIndex,
+				updatedAt: new Date().toISOString(),
+			};
+			const result = await this.eizenService.updateVector(chunkId, {
+				metadata,
+			});
+			if (result) {
+				this.getKeywordIndex().updateMetadata(result.revisionId, metadata);
+			}
+		}
+	}
+
+	/**
+	 * Collapses hits on chunks into the memories they belong to
+	 *
+	 * A memory takes the rank of its best hit, whether on the memory itself
+	 * or on one of its chunks; the best-matching chunk becomes its highlight.
+	 * Memories only reached through chunks are loaded, and dropped if they
+	 * were deleted in the meantime.
+	 *
+	 * @private This is an internal helper method
+	 */
+	private async collapseChunks(
+		memories: MemoryResult[],
+		k: number,
+	): Promise<MemoryResult[]> {
+		const { hits, unresolved } = collapseChunkHits(memories, k);
+		const collapsed = new Map(hits.map((hit) => [hit.id, hit]));
+
+		await Promise.all(
+			unresolved.map(async (id) => {
+				const parent = await this.getMemory(id);
+				const entry = collapsed.get(id);
+				if (!parent || !entry) {
+					collapsed.delete(id);
+					return;
+				}
+				entry.content = parent.content;
+				entry.metadata = parent.metadata;
+			}),
+		);
+
+		return [...collapsed.values()];
+	}
+
 	/**
 	 * Converts text content into numerical vector embeddings
 	 *
 	 * This is the core ML operation that enables semantic search.
-	 * Uses transformer models (via Xenova) to create high-dimensional
-	 * vectors that capture semantic meaning of text.
+	 * Uses the configured embedding provider to create high-dimensional
+	 * vectors that capture semantic meaning of text, and checks that they
+	 * live in the same vector space as this contract's stored memories.
 	 *
 	 * @private This is an internal helper method
 	 * @param text - The text content to vectorize
+	 * @param isWrite - Whether the vector will be stored (records the contract's profile if missing)
 	 * @returns Promise resolving to numerical embedding array
 	 *
-	 * @throws {Error} When embedding generation fails
+	 * @throws {Error} When embedding generation fails or the vector space does not match the contract
 	 */
-	private async textToEmbeddings(text: string): Promise<number[]> {
+	private async textToEmbeddings(
+		text: string,
+		isWrite = false,
+	): Promise<number[]> {
 		try {
-			console.log("Converting text to embeddings using Xenova/transformers");
+			const info = embeddingService.getInfo();
+			console.log(
+				`Converting text to embeddings using ${info.provider} (${info.model})`,
+			);
 
 			const result = await embeddingService.textToEmbeddings(text);
+			await this.assertCompatibleEmbeddings(result, isWrite);
 			return result.embeddings;
 		} catch (error) {
 			console.error("Failed to generate embeddings:", error);
@@ -322,74 +1667,177 @@ export class MemoryService {
 	}
 
 	/**
-	 * Applies metadata-based filters to search results
+	 * Ensures embeddings match the provider, model and dimensionality of the contract
+	 *
+	 * Vectors from different models are not comparable, so mixing them in one
+	 * HNSW index silently ruins search quality. Each contract records the
+	 * embedding profile it was first written with; every later write or query
+	 * must match it.
+	 *
+	 * Contracts without a recorded profile (new, or created before profiles
+	 * existed) adopt the current profile on their first write.
+	 *
+	 * @private This is an internal helper method
+	 * @param result - Embedding produced by the current provider
+	 * @param isWrite - Whether to record the profile when the contract has none
+	 *
+	 * @throws {Error} When the embedding profile differs from the contract's
+	 */
+	private async assertCompatibleEmbeddings(
+		result: EmbeddingResult,
+		isWrite: boolean,
+	): Promise<void> {
+		const current = {
+			provider: result.provider,
+			model: result.model,
+			dimensions: result.dimensions,
+		};
+		const recorded = await this.eizenService.getEmbeddingProfile();
+
+		if (!recorded) {
+			if (isWrite) {
+				await this.eizenService.setEmbeddingProfile(current);
+			}
+			return;
+		}
+
+		if (
+			recorded.provider !== current.provider ||
+			recorded.model !== current.model ||
+			recorded.dimensions !== current.dimensions
+		) {
+			throw new Error(
+				`Embedding mismatch: contract stores ${recorded.dimensions}d vectors from ${recorded.provider}/${recorded.model}, but the API is configured for ${current.dimensions}d vectors from ${current.provider}/${current.model}`,
+			);
+		}
+	}
+
+	/**
+	 * Checks a memory's metadata against search filters
 	 *
 	 * Filters allow users to narrow down search results based on:
 	 * - Tags (categories, labels)
-	 * - Importance level (numerical rating)
-	 * - Client/source information
+	 * - Importance level (numerical rating, min and max)
+	 * - Context and client/source information
 	 * - Date ranges (creation or custom timestamps)
+	 * - A metadata predicate (`where`) over arbitrary keys, see matchesPredicate()
 	 *
 	 * @private This is an internal helper method
-	 * @param memories - Array of memory results to filter
-	 * @param filters - Optional filter criteria
-	 * @returns Filtered array of memories
+	 * @param metadata - Metadata of a search candidate
+	 * @param filters - Filter criteria
+	 * @returns Whether the memory passes all filters
 	 */
-	private applyFilters(
-		memories: MemoryResult[],
-		filters?: SearchFilters,
-	): MemoryResult[] {
-		// If no filters provided, return all results unchanged
-		if (!filters) {
-			return memories;
+	private matchesFilters(
+		metadata: VectorMetadata | undefined,
+		filters: SearchFilters,
+	): boolean {
+		// Custom keys are checked even without metadata, where they simply don't exist
+		if (filters.where && !matchesPredicate(metadata ?? {}, filters.where)) {
+			return false;
 		}
 
-		return memories.filter((memory) => {
-			// Skip filtering if memory has no metadata
-			if (!memory.metadata) return true;
+		// Skip filtering if memory has no metadata
+		if (!metadata) return true;
 
-			// Filter by tags - check if memory has any of the requested tags
-			if (filters.tags && Array.isArray(filters.tags)) {
-				const memoryTags = (memory.metadata.tags as string[]) || [];
-				const hasRequiredTags = filters.tags.some((tag: string) =>
-					memoryTags.includes(tag),
-				);
-				if (!hasRequiredTags) return false;
-			}
+		// Filter by tags - check if memory has any of the requested tags
+		if (filters.tags && Array.isArray(filters.tags)) {
+			const memoryTags = (metadata.tags as string[]) || [];
+			const hasRequiredTags = filters.tags.some((tag: string) =>
+				memoryTags.includes(tag),
+			);
+			if (!hasRequiredTags) return false;
+		}
 
-			// Filter by minimum importance level
-			if (
-				filters.importance_min !== undefined &&
-				filters.importance_min !== null &&
-				typeof filters.importance_min === "number"
-			) {
-				const importance = (memory.metadata.importance as number) || 0;
-				if (importance < filters.importance_min) return false;
-			}
+		// Filter by minimum importance level
+		if (
+			filters.importance_min !== undefined &&
+			filters.importance_min !== null &&
+			typeof filters.importance_min === "number"
+		) {
+			const importance = (metadata.importance as number) || 0;
+			if (importance < filters.importance_min) return false;
+		}
 
-			// Filter by client - partial string matching
-			if (filters.client && typeof filters.client === "string") {
-				const client = (memory.metadata.client as string) || "";
-				if (!client.includes(filters.client)) return false;
-			}
+		// Filter by maximum importance level
+		if (typeof filters.importance_max === "number") {
+			const importance = (metadata.importance as number) || 0;
+			if (importance > filters.importance_max) return false;
+		}
 
-			// Filter by date range - check creation date or custom timestamp
-			if (filters.date_from || filters.date_to) {
-				const timestamp =
-					(memory.metadata.timestamp as string) ||
-					(memory.metadata.createdAt as string);
-				if (timestamp) {
-					const memoryDate = new Date(timestamp);
-					// Check if memory is after start date
-					if (filters.date_from && memoryDate < new Date(filters.date_from))
-						return false;
-					// Check if memory is before end date
-					if (filters.date_to && memoryDate > new Date(filters.date_to))
-						return false;
-				}
+		// Filter by context - partial string matching
+		if (filters.context && typeof filters.context === "string") {
+			const context = (metadata.context as string) || "";
+			if (!context.includes(filters.context)) return false;
+		}
+
+		// Filter by client - partial string matching
+		if (filters.client && typeof filters.client === "string") {
+			const client = (metadata.client as string) || "";
+			if (!client.includes(filters.client)) return false;
+		}
+
+		// Filter by date range - check creation date or custom timestamp
+		if (filters.date_from || filters.date_to) {
+			const timestamp =
+				(metadata.timestamp as string) || (metadata.createdAt as string);
+			if (timestamp) {
+				const memoryDate = new Date(timestamp);
+				// Check if memory is after start date
+				if (filters.date_from && memoryDate < new Date(filters.date_from))
+					return false;
+				// Check if memory is before end date
+				if (filters.date_to && memoryDate > new Date(filters.date_to))
+					return false;
 			}
+		}
 
-			return true;
-		});
+		return true;
 	}
 }
+
+/**
+ * Vector IDs of the chunks of a memory, from its metadata
+ */
+function chunkIdsOf(metadata: VectorMetadata): number[] {
+	return Array.isArray(metadata?.chunkIds)
+		? metadata.chunkIds.filter((id): id is number => typeof id === "number")
+		: [];
+}
+
+/**
+ * Memory index row for a stored vector
+ */
+function toIndexEntry(
+	contractId: string,
+	vector: Pick<EizenStoredVector, "id" | "nodeId" | "metadata">,
+): NewMemoryIndexEntry {
+	const { metadata } = vector;
+	const timestamp = Date.parse(metadata?.timestamp ?? metadata?.updatedAt);
+
+	return {
+		contractId,
+		memoryId: vector.id,
+		nodeId: vector.nodeId,
+		timestamp: Number.isNaN(timestamp) ? new Date() : new Date(timestamp),
+		importance:
+			typeof metadata?.importance === "number" ? metadata.importance : 0,
+		metadata: metadata ?? null,
+	};
+}
+
+/**
+ * Sort value and memory ID of an index entry, for a list cursor
+ */
+function sortPosition(
+	entry: MemoryIndexEntry,
+	sort: ListMemories["sort"],
+): { value: number | string; memoryId: number } {
+	const value =
+		sort === "timestamp"
+			? entry.timestamp.toISOString()
+			: sort === "importance"
+				? entry.importance
+				: entry.memoryId;
+
+	return { value, memoryId: entry.memoryId };
+}
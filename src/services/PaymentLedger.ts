@@ -0,0 +1,37 @@
+import {
+	claimPayment,
+	confirmPayment,
+	getPaymentByTxHash,
+	rejectPayment,
+} from "../database/models/payments.js";
+import { createPaymentLedger } from "../utils/paymentLedger.js";
+import { getPaymentService } from "./PaymentService.js";
+
+export type { RedeemPaymentResult } from "../utils/paymentLedger.js";
+
+/**
+ * Redeem a payment transaction for a subscription, at most once
+ *
+ * Payments are recorded in the payments table and verified with the shared
+ * PaymentService, see utils/paymentLedger.ts.
+ *
+ * @example
+ * ```typescript
+ * const redemption = await redeemPayment(
+ *   { userId, txHash, planId: "pro", walletAddress },
+ *   () => createUserSubscription({ ... }),
+ * );
+ * if (!redemption.ok) {
+ *   res.status(redemption.status).json({ txHash, error: redemption.error });
+ * }
+ * ```
+ */
+export const redeemPayment = createPaymentLedger({
+	store: {
+		claim: claimPayment,
+		find: getPaymentByTxHash,
+		confirm: confirmPayment,
+		reject: rejectPayment,
+	},
+	payments: getPaymentService,
+});
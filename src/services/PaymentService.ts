@@ -0,0 +1,232 @@
+import { PLANS, type PlanId } from "../config/plans.js";
+import {
+	type EthLog,
+	type EtherscanClient,
+	createEtherscanClient,
+} from "../utils/etherScan.js";
+
+// keccak256("Transfer(address,address,uint256)")
+const TRANSFER_TOPIC =
+	"0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export interface PaymentConfig {
+	treasuryAddress: string; // Receives subscription payments
+	chainId: number; // Payments on other chains are rejected
+	tokenAddress?: string; // ERC-20 (USD stablecoin) accepted besides ETH
+	tokenDecimals: number;
+}
+
+export interface VerifiedPayment {
+	txHash: string;
+	chainId: number;
+	from: string;
+	to: string;
+	currency: "ETH" | "ERC20";
+	amount: string; // Base units (wei or token units), decimal string
+	planId: PlanId;
+}
+
+export type PaymentVerificationResult =
+	| { verified: true; payment: VerifiedPayment }
+	| { verified: false; reason: string };
+
+/**
+ * Compare two addresses, ignoring checksum casing
+ */
+function sameAddress(a: string | null | undefined, b: string): boolean {
+	return !!a && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Address held in a 32-byte log topic
+ */
+function topicAddress(topic: string | undefined): string | null {
+	return topic ? `0x${topic.slice(-40)}` : null;
+}
+
+/**
+ * Price of a plan in base units of a USD stablecoin
+ */
+function tokenPrice(priceUsd: number, decimals: number): bigint {
+	return (BigInt(Math.round(priceUsd * 100)) * 10n ** BigInt(decimals)) / 100n;
+}
+
+/**
+ * On-chain verification of subscription payments
+ *
+ * A payment counts when its transaction succeeded on the expected chain, was
+ * sent from the user's wallet, and paid at least the plan price to the
+ * treasury: either in ETH (`priceWei`) or as a transfer of the configured
+ * ERC-20 token (`priceUsd`).
+ *
+ * @example
+ * ```typescript
+ * const payments = new PaymentService(createEtherscanClient(1), {
+ *   treasuryAddress: "0x...",
+ *   chainId: 1,
+ *   tokenDecimals: 6,
+ * });
+ * const result = await payments.verifyPayment({ txHash, planId: "pro", walletAddress });
+ * ```
+ */
+export class PaymentService {
+	constructor(
+		private client: EtherscanClient,
+		private config: PaymentConfig,
+	) {}
+
+	/** Chain payments are accepted on */
+	get chainId(): number {
+		return this.config.chainId;
+	}
+
+	/**
+	 * Create a PaymentService from environment variables
+	 *
+	 * @throws {Error} If PAYMENT_TREASURY_ADDRESS is not set
+	 */
+	static fromEnv(): PaymentService {
+		const treasuryAddress = process.env.PAYMENT_TREASURY_ADDRESS;
+		if (!treasuryAddress) {
+			throw new Error("PAYMENT_TREASURY_ADDRESS is not set");
+		}
+
+		const chainId = Number(process.env.PAYMENT_CHAIN_ID ?? 1);
+
+		return new PaymentService(createEtherscanClient(chainId), {
+			treasuryAddress,
+			chainId,
+			tokenAddress: process.env.PAYMENT_TOKEN_ADDRESS || undefined,
+			tokenDecimals: Number(process.env.PAYMENT_TOKEN_DECIMALS ?? 6),
+		});
+	}
+
+	/**
+	 * Verify that a transaction pays for a plan
+	 *
+	 * @param params.txHash - Hash of the payment transaction
+	 * @param params.planId - Plan being paid for
+	 * @param params.walletAddress - The user's wallet, which must have sent the payment
+	 * @returns The verified payment, or why the transaction does not qualify
+	 * @throws {Error} If Etherscan cannot be reached or answers with an error
+	 */
+	async verifyPayment(params: {
+		txHash: string;
+		planId: PlanId;
+		walletAddress: string;
+	}): Promise<PaymentVerificationResult> {
+		const { txHash, planId, walletAddress } = params;
+		const { treasuryAddress, chainId, tokenAddress } = this.config;
+		const plan = PLANS[planId];
+
+		if (this.client.chainId !== chainId) {
+			return {
+				verified: false,
+				reason: `Payment client is configured for chain ${this.client.chainId}, expected ${chainId}`,
+			};
+		}
+
+		const [tx, receipt] = await Promise.all([
+			this.client.getTransaction(txHash),
+			this.client.getTransactionReceipt(txHash),
+		]);
+
+		if (!tx || !receipt) {
+			return {
+				verified: false,
+				reason: `Transaction not found or not yet mined on chain ${chainId}`,
+			};
+		}
+		if (tx.chainId !== undefined && Number(tx.chainId) !== chainId) {
+			return {
+				verified: false,
+				reason: `Transaction is on chain ${Number(tx.chainId)}, expected ${chainId}`,
+			};
+		}
+		if (receipt.status !== "0x1") {
+			return { verified: false, reason: "Transaction failed" };
+		}
+		if (!sameAddress(tx.from, walletAddress)) {
+			return {
+				verified: false,
+				reason: "Transaction was not sent from the user's wallet",
+			};
+		}
+
+		// Plain ETH transfer to the treasury
+		if (sameAddress(tx.to, treasuryAddress)) {
+			const amount = BigInt(tx.value);
+			if (amount < BigInt(plan.priceWei)) {
+				return {
+					verified: false,
+					reason: `Paid ${amount} wei, plan ${planId} costs ${plan.priceWei} wei`,
+				};
+			}
+			return {
+				verified: true,
+				payment: {
+					txHash,
+					chainId,
+					from: tx.from,
+					to: treasuryAddress,
+					currency: "ETH",
+					amount: amount.toString(),
+					planId,
+				},
+			};
+		}
+
+		// ERC-20 transfer: the treasury must receive the tokens from the wallet
+		if (tokenAddress && sameAddress(tx.to, tokenAddress)) {
+			const isPayment = (log: EthLog) =>
+				sameAddress(log.address, tokenAddress) &&
+				log.topics[0]?.toLowerCase() === TRANSFER_TOPIC &&
+				sameAddress(topicAddress(log.topics[1]), walletAddress) &&
+				sameAddress(topicAddress(log.topics[2]), treasuryAddress);
+
+			const transfers = receipt.logs.filter(isPayment);
+			if (transfers.length === 0) {
+				return {
+					verified: false,
+					reason: "Transaction does not transfer tokens to the treasury",
+				};
+			}
+
+			const amount = transfers.reduce((sum, log) => sum + BigInt(log.data), 0n);
+			const price = tokenPrice(plan.priceUsd, this.config.tokenDecimals);
+			if (amount < price) {
+				return {
+					verified: false,
+					reason: `Paid ${amount} token units, plan ${planId} costs ${price}`,
+				};
+			}
+			return {
+				verified: true,
+				payment: {
+					txHash,
+					chainId,
+					from: tx.from,
+					to: treasuryAddress,
+					currency: "ERC20",
+					amount: amount.toString(),
+					planId,
+				},
+			};
+		}
+
+		return {
+			verified: false,
+			reason: "Transaction is not a payment to the treasury",
+		};
+	}
+}
+
+let instance: PaymentService | null = null;
+
+/**
+ * Shared PaymentService, created from the environment on first use
+ */
+export function getPaymentService(): PaymentService {
+	instance ??= PaymentService.fromEnv();
+	return instance;
+}
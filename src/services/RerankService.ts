@@ -0,0 +1,149 @@
+import {
+	AutoModelForSequenceClassification,
+	AutoTokenizer,
+	type PreTrainedModel,
+	type PreTrainedTokenizer,
+} from "@xenova/transformers";
+
+/**
+ * Service class for re-ranking search candidates with a local cross-encoder.
+ *
+ * A bi-encoder (the embedding model) compares independently computed vectors,
+ * which is fast and gives good recall but imprecise ordering. A cross-encoder
+ * reads the query and a candidate together and scores their relevance
+ * directly, which is much more precise but too slow to run over a whole
+ * contract. It is therefore only applied to the top candidates of a search.
+ *
+ * Technical Details:
+ * - Defaults to "Xenova/ms-marco-MiniLM-L-6-v2", override with RERANK_MODEL
+ * - Model files are downloaded on first use and cached locally
+ * - Scores are the model's relevance logit squashed to 0..1 (higher == more relevant)
+ */
+export class RerankService {
+	private tokenizer: PreTrainedTokenizer | null = null;
+	private model: PreTrainedModel | null = null;
+	private isInitialized = false;
+	private initializationPromise: Promise<void> | null = null;
+	private readonly modelName =
+		process.env.RERANK_MODEL?.trim() || "Xenova/ms-marco-MiniLM-L-6-v2";
+
+	/**
+	 * Loads the cross-encoder tokenizer and model.
+	 *
+	 * @private
+	 * @throws {Error} If the model cannot be loaded
+	 */
+	private async initialize(): Promise<void> {
+		try {
+			console.log(`Loading rerank model: ${this.modelName}`);
+
+			// This may take time on first run as it downloads model files
+			this.tokenizer = await AutoTokenizer.from_pretrained(this.modelName);
+			this.model = await AutoModelForSequenceClassification.from_pretrained(
+				this.modelName,
+			);
+
+			this.isInitialized = true;
+			console.log("RerankService initialized successfully");
+		} catch (error) {
+			console.error("RerankService initialization failed:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Ensure the model is loaded before scoring
+	 * Prevents multiple concurrent initialization attempts
+	 */
+	async ensureInitialized(): Promise<void> {
+		if (this.isInitialized) {
+			return;
+		}
+
+		if (this.initializationPromise) {
+			await this.initializationPromise;
+			return;
+		}
+
+		this.initializationPromise = this.initialize();
+
+		try {
+			await this.initializationPromise;
+		} finally {
+			this.initializationPromise = null;
+		}
+
+		if (!this.isInitialized) {
+			throw new Error("RerankService is not properly initialized");
+		}
+	}
+
+	/**
+	 * Scores how relevant each document is to the query.
+	 *
+	 * All (query, document) pairs are run through the model in one batch.
+	 *
+	 * @param query - The search query
+	 * @param documents - Candidate texts to score
+	 * @returns Promise resolving to one score per document, in input order
+	 * @throws {Error} If the model is not available or inference fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const scores = await rerankService.score("dark mode", [
+	 *   "User prefers dark mode in all editors",
+	 *   "User's favorite color is blue",
+	 * ]);
+	 * ```
+	 */
+	async score(query: string, documents: string[]): Promise<number[]> {
+		if (documents.length === 0) {
+			return [];
+		}
+
+		await this.ensureInitialized();
+
+		if (!this.tokenizer || !this.model) {
+			throw new Error("Rerank model not initialized");
+		}
+
+		try {
+			const inputs = this.tokenizer(new Array(documents.length).fill(query), {
+				text_pair: documents,
+				padding: true,
+				truncation: true,
+			});
+
+			const { logits } = await this.model(inputs);
+			const values = Array.from(logits.data as Float32Array);
+
+			// Single-label relevance head: one logit per pair
+			if (values.length !== documents.length) {
+				throw new Error(
+					`Expected ${documents.length} scores but the model returned ${values.length}`,
+				);
+			}
+
+			return values.map((logit) => 1 / (1 + Math.exp(-logit)));
+		} catch (error) {
+			console.error("Failed to rerank documents:", error);
+			throw new Error(
+				`Failed to rerank documents: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Returns the configured model and whether it has been loaded.
+	 */
+	getInfo(): { model: string; isInitialized: boolean } {
+		return { model: this.modelName, isInitialized: this.isInitialized };
+	}
+}
+
+/**
+ * Singleton instance of RerankService for application-wide use.
+ *
+ * The model is only loaded on the first search that asks for re-ranking.
+ */
+export const rerankService = new RerankService();
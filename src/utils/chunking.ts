@@ -0,0 +1,136 @@
+export interface TextChunk {
+	text: string;
+	start: number; // Character offset of the chunk in the original text
+	end: number; // Character offset just past the chunk
+	tokens: number;
+}
+
+export interface ChunkingOptions {
+	maxTokens: number; // Token budget of one chunk
+	overlapTokens: number; // Tokens repeated from the end of the previous chunk
+}
+
+/**
+ * Split text into overlapping chunks that each fit a token budget
+ *
+ * Splits on word boundaries so every chunk is a verbatim slice of the input
+ * (casing and punctuation preserved), while sizes are measured with the
+ * caller's tokenizer. Consecutive chunks share roughly `overlapTokens` tokens
+ * so a sentence cut at a boundary is still embedded whole in one chunk.
+ *
+ * Text that fits the budget is returned as a single chunk. A single word
+ * longer than the budget becomes a chunk of its own.
+ *
+ * @param text - Text to split
+ * @param countTokens - Number of tokens a piece of text encodes to, without special tokens
+ * @param options - Chunk size and overlap in tokens
+ */
+export function splitIntoChunks(
+	text: string,
+	countTokens: (text: string) => number,
+	options: ChunkingOptions,
+): TextChunk[] {
+	const words = [...text.matchAll(/\S+\s*/g)].map((match) => ({
+		start: match.index,
+		end: match.index + match[0].length,
+		tokens: countTokens(match[0].trim()),
+	}));
+
+	const totalTokens = words.reduce((sum, word) => sum + word.tokens, 0);
+	if (words.length === 0 || totalTokens <= options.maxTokens) {
+		return [{ text, start: 0, end: text.length, tokens: totalTokens }];
+	}
+
+	const chunks: TextChunk[] = [];
+	let first = 0;
+
+	while (first < words.length) {
+		// Take words until the next one would overflow the budget
+		let last = first;
+		let tokens = words[first].tokens;
+		while (
+			last + 1 < words.length &&
+			tokens + words[last + 1].tokens <= options.maxTokens
+		) {
+			last++;
+			tokens += words[last].tokens;
+		}
+
+		const start = words[first].start;
+		const end = words[last].end;
+		chunks.push({ text: text.slice(start, end).trimEnd(), start, end, tokens });
+
+		if (last === words.length - 1) {
+			break;
+		}
+
+		// Step back over trailing words for the overlap, always moving forward
+		let next = last + 1;
+		let overlap = 0;
+		while (
+			next - 1 > first &&
+			overlap + words[next - 1].tokens <= options.overlapTokens
+		) {
+			next--;
+			overlap += words[next].tokens;
+		}
+		first = next;
+	}
+
+	return chunks;
+}
+
+/** A search hit that may be on a chunk of a longer memory */
+export interface ChunkHit {
+	id: number;
+	content?: string;
+	metadata?: Record<string, unknown>; // Chunks carry `parentId` and `chunkIndex`
+	highlight?: { chunkIndex: number; content: string };
+}
+
+/**
+ * Collapse search hits on chunks into the memories they belong to
+ *
+ * A memory takes the rank of its best hit, whether on the memory itself or
+ * on one of its chunks; the best-matching chunk becomes its highlight. Hits
+ * past the k-th memory are dropped.
+ *
+ * @param hits - Search hits, best first
+ * @param k - Number of memories to keep
+ * @returns One hit per memory, best first, and the IDs of memories only
+ *   reached through their chunks, whose content and metadata are still the
+ *   chunk's and must be loaded
+ */
+export function collapseChunkHits<T extends ChunkHit>(
+	hits: T[],
+	k: number,
+): { hits: T[]; unresolved: number[] } {
+	const collapsed = new Map<number, T>();
+	const unresolved = new Set<number>(); // Memories only seen through their chunks
+
+	for (const hit of hits) {
+		const parentId = hit.metadata?.parentId;
+		const id = typeof parentId === "number" ? parentId : hit.id;
+
+		let entry = collapsed.get(id);
+		if (!entry) {
+			if (collapsed.size >= k) {
+				continue;
+			}
+			entry = id === hit.id ? { ...hit } : { ...hit, id };
+			collapsed.set(id, entry);
+			if (id !== hit.id) {
+				unresolved.add(id);
+			}
+		}
+
+		if (id !== hit.id && !entry.highlight) {
+			entry.highlight = {
+				chunkIndex: Number(hit.metadata?.chunkIndex ?? 0),
+				content: hit.content ?? "",
+			};
+		}
+	}
+
+	return { hits: [...collapsed.values()], unresolved: [...unresolved] };
+}
@@ -20,4 +20,75 @@ export const verifyTransaction = async (txHash?: string) => {
     console.error('Error verifying transaction:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+export interface EthTransaction {
+  hash: string;
+  from: string;
+  to: string | null; // null for contract creations
+  value: string; // Wei, hex encoded
+  input: string;
+  chainId?: string; // Hex encoded, absent on legacy transactions
+  blockNumber: string | null; // null while pending
+}
+
+export interface EthLog {
+  address: string; // Contract that emitted the log
+  topics: string[];
+  data: string;
+}
+
+export interface EthTransactionReceipt {
+  status: string; // "0x1" on success, "0x0" when reverted
+  from: string;
+  to: string | null;
+  logs: EthLog[];
+  blockNumber: string;
+}
+
+/**
+ * Read access to one chain's transactions through Etherscan
+ *
+ * Injected into PaymentService so tests can replace Etherscan with a stub.
+ */
+export interface EtherscanClient {
+  chainId: number;
+  getTransaction(txHash: string): Promise<EthTransaction | null>;
+  getTransactionReceipt(txHash: string): Promise<EthTransactionReceipt | null>;
+}
+
+/**
+ * Create an Etherscan (API v2) client for a chain
+ *
+ * Uses Etherscan's JSON-RPC proxy module, so transactions of other chains
+ * are simply not found.
+ *
+ * @param chainId - EVM chain ID, 1 for Ethereum mainnet
+ * @param apiKey - Etherscan API key, defaults to ETHERSCAN_API_KEY
+ */
+export function createEtherscanClient(
+  chainId: number,
+  apiKey = process.env.ETHERSCAN_API_KEY,
+): EtherscanClient {
+  const call = async <T>(action: string, txHash: string): Promise<T | null> => {
+    if (!apiKey) {
+      throw new Error('Etherscan API key is not set');
+    }
+
+    const response = await axios.get('https://api.etherscan.io/v2/api', {
+      params: { chainid: chainId, module: 'proxy', action, txhash: txHash, apikey: apiKey },
+    });
+
+    // Proxy calls answer in JSON-RPC form; API errors come back as { status: "0", result: "<message>" }
+    if (response.data.error || response.data.status === '0') {
+      throw new Error(`Etherscan ${action} failed: ${response.data.error?.message ?? response.data.result}`);
+    }
+
+    return response.data.result ?? null;
+  };
+
+  return {
+    chainId,
+    getTransaction: (txHash) => call<EthTransaction>('eth_getTransactionByHash', txHash),
+    getTransactionReceipt: (txHash) => call<EthTransactionReceipt>('eth_getTransactionReceipt', txHash),
+  };
+}
@@ -0,0 +1,91 @@
+import {
+	type ImportRecord,
+	type VectorImportRecord,
+	createMemorySchema,
+	vectorImportRecordSchema,
+} from "../schemas/memory.js";
+import type { EmbeddingProfile } from "../services/EmbeddingService.js";
+
+export interface ImportRowError {
+	line: number; // 1-based line number in the uploaded NDJSON
+	error: string;
+}
+
+/**
+ * Parse and validate an NDJSON import upload
+ *
+ * Every non-empty line must be a JSON object matching either
+ * vectorImportRecordSchema (lines exported with `vectors=true`) or
+ * createMemorySchema (everything else, including plain exports).
+ *
+ * @param ndjson - The uploaded NDJSON text
+ * @returns Valid records with their line numbers, and the errors of invalid lines
+ */
+export function parseImport(ndjson: string): {
+	records: { line: number; record: ImportRecord }[];
+	errors: ImportRowError[];
+} {
+	const records: { line: number; record: ImportRecord }[] = [];
+	const errors: ImportRowError[] = [];
+
+	ndjson.split(/\r?\n/).forEach((text, index) => {
+		const line = index + 1;
+		if (!text.trim()) {
+			return;
+		}
+
+		let value: unknown;
+		try {
+			value = JSON.parse(text);
+		} catch {
+			errors.push({ line, error: "Invalid JSON" });
+			return;
+		}
+
+		const schema =
+			typeof value === "object" && value !== null && "vector" in value
+				? vectorImportRecordSchema
+				: createMemorySchema;
+		const parsed = schema.safeParse(value);
+
+		if (parsed.success) {
+			records.push({ line, record: parsed.data });
+		} else {
+			errors.push({
+				line,
+				error: parsed.error.errors
+					.map((issue) => `${issue.path.join(".") || "line"}: ${issue.message}`)
+					.join("; "),
+			});
+		}
+	});
+
+	return { records, errors };
+}
+
+/**
+ * Whether an import record's stored vector can be used as-is
+ *
+ * The vector must have been produced by the model this server embeds with,
+ * match the contract's dimensions, and belong to content that fits in one
+ * chunk; otherwise the content is re-embedded.
+ *
+ * @param record - A parsed import record
+ * @param embedding - Provider and model this server embeds with
+ * @param profile - The contract's embedding profile, null before its first write
+ * @param chunkCount - Number of chunks the record's content splits into
+ */
+export function canReuseVector(
+	record: ImportRecord,
+	embedding: { provider: string; model: string },
+	profile: Pick<EmbeddingProfile, "dimensions"> | null,
+	chunkCount: number,
+): record is VectorImportRecord {
+	return (
+		"vector" in record &&
+		record.provider === embedding.provider &&
+		record.model === embedding.model &&
+		(!profile || record.vector.length === profile.dimensions) &&
+		chunkCount === 1
+	);
+}
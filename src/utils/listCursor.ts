@@ -0,0 +1,40 @@
+/**
+ * Opaque pagination cursors for memory listing
+ *
+ * A cursor records the sort it was issued for and the position of the last
+ * memory on the page (its sort value and ID), so the next page can resume
+ * with keyset pagination regardless of writes in between.
+ */
+export interface MemoryListCursor {
+	sort: "id" | "timestamp" | "importance";
+	order: "asc" | "desc";
+	value: number | string; // Sort value of the last memory: ID, importance or ISO timestamp
+	memoryId: number;
+}
+
+export function encodeListCursor(cursor: MemoryListCursor): string {
+	return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/**
+ * Decode a cursor issued by encodeListCursor
+ *
+ * @returns The cursor, or null if the string is not a valid cursor
+ */
+export function decodeListCursor(value: string): MemoryListCursor | null {
+	try {
+		const cursor = JSON.parse(
+			Buffer.from(value, "base64url").toString("utf8"),
+		) as MemoryListCursor;
+
+		const valid =
+			["id", "timestamp", "importance"].includes(cursor.sort) &&
+			["asc", "desc"].includes(cursor.order) &&
+			Number.isInteger(cursor.memoryId) &&
+			(typeof cursor.value === "number" || typeof cursor.value === "string");
+
+		return valid ? cursor : null;
+	} catch {
+		return null;
+	}
+}
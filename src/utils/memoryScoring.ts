@@ -0,0 +1,117 @@
+import type { VectorMetadata } from "../schemas/eizen.js";
+import type { Scoring, ScoringPreset } from "../schemas/memory.js";
+
+/** Per-field scores of a memory, each between 0 and 1 */
+export interface ScoreBreakdown {
+	similarity: number;
+	recency: number;
+	importance: number;
+}
+
+export interface ScoringConfig {
+	weights: ScoreBreakdown;
+	halfLifeDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Importance assumed for memories stored without one
+const DEFAULT_IMPORTANCE = 5;
+
+/**
+ * Built-in scoring presets
+ *
+ * - similarity: Relevance only, the plain search order
+ * - balanced: Mostly relevance, nudged towards recent and important memories
+ * - recent-first: Recency dominates, with a one week half-life
+ * - important-first: Importance dominates
+ */
+export const SCORING_PRESETS: Record<ScoringPreset, ScoringConfig> = {
+	similarity: {
+		weights: { similarity: 1, recency: 0, importance: 0 },
+		halfLifeDays: 30,
+	},
+	balanced: {
+		weights: { similarity: 0.6, recency: 0.2, importance: 0.2 },
+		halfLifeDays: 30,
+	},
+	"recent-first": {
+		weights: { similarity: 0.4, recency: 0.5, importance: 0.1 },
+		halfLifeDays: 7,
+	},
+	"important-first": {
+		weights: { similarity: 0.4, recency: 0.1, importance: 0.5 },
+		halfLifeDays: 30,
+	},
+};
+
+/**
+ * Resolve a scoring request to weights and half-life
+ *
+ * Starts from the preset and applies any weights or half-life given
+ * explicitly.
+ */
+export function resolveScoring(scoring: Scoring): ScoringConfig {
+	const preset = SCORING_PRESETS[scoring.preset ?? "balanced"];
+
+	return {
+		weights: { ...preset.weights, ...scoring.weights },
+		halfLifeDays: scoring.half_life_days ?? preset.halfLifeDays,
+	};
+}
+
+/**
+ * Score a memory's age: 1 when new, halving every half-life
+ *
+ * Age is taken from metadata `timestamp`, falling back to `updatedAt`.
+ * Memories without either score 0.
+ */
+export function recencyScore(
+	metadata: VectorMetadata,
+	halfLifeDays: number,
+	now = Date.now(),
+): number {
+	const timestamp = metadata?.timestamp ?? metadata?.updatedAt;
+	const time =
+		typeof timestamp === "string" ? Date.parse(timestamp) : Number.NaN;
+
+	if (Number.isNaN(time)) {
+		return 0;
+	}
+
+	const ageDays = Math.max(0, now - time) / DAY_MS;
+	return 0.5 ** (ageDays / halfLifeDays);
+}
+
+/**
+ * Score a memory's importance (1-10) on 0..1
+ */
+export function importanceScore(metadata: VectorMetadata): number {
+	const importance =
+		typeof metadata?.importance === "number"
+			? metadata.importance
+			: DEFAULT_IMPORTANCE;
+
+	return Math.min(1, Math.max(0, (importance - 1) / 9));
+}
+
+/**
+ * Combine per-field scores into the weighted mean used for ranking
+ */
+export function combineScores(
+	breakdown: ScoreBreakdown,
+	weights: ScoreBreakdown,
+): number {
+	const totalWeight = weights.similarity + weights.recency + weights.importance;
+
+	if (totalWeight === 0) {
+		return 0;
+	}
+
+	return (
+		(breakdown.similarity * weights.similarity +
+			breakdown.recency * weights.recency +
+			breakdown.importance * weights.importance) /
+		totalWeight
+	);
+}
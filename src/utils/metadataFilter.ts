@@ -0,0 +1,93 @@
+import type { MetadataPredicate } from "../schemas/common.js";
+import type { VectorMetadata } from "../schemas/eizen.js";
+
+/**
+ * Metadata predicate evaluation for memory search filters
+ *
+ * Evaluates a validated MetadataPredicate (see metadataPredicateSchema)
+ * against the metadata stored with a memory:
+ * - eq: Value is strictly equal
+ * - in: Value equals one of the listed values
+ * - range: Number, or ISO 8601 timestamp when the bounds are timestamps, within the bounds
+ * - exists: Key is present and not null
+ * - contains: Array value includes the element, or string value includes the substring
+ * - and/or/not: Boolean combinations of other predicates
+ *
+ * Predicates on keys the memory does not have are false (except under `not`).
+ */
+export function matchesPredicate(
+	metadata: VectorMetadata,
+	predicate: MetadataPredicate,
+): boolean {
+	switch (predicate.op) {
+		case "and":
+			return predicate.clauses.every((clause) =>
+				matchesPredicate(metadata, clause),
+			);
+		case "or":
+			return predicate.clauses.some((clause) =>
+				matchesPredicate(metadata, clause),
+			);
+		case "not":
+			return !matchesPredicate(metadata, predicate.clause);
+		case "exists":
+			return (
+				metadata?.[predicate.key] !== undefined &&
+				metadata[predicate.key] !== null
+			);
+		case "eq":
+			return metadata?.[predicate.key] === predicate.value;
+		case "in":
+			return predicate.values.includes(metadata?.[predicate.key]);
+		case "contains": {
+			const value = metadata?.[predicate.key];
+			if (Array.isArray(value)) {
+				return value.includes(predicate.value);
+			}
+			return (
+				typeof value === "string" &&
+				typeof predicate.value === "string" &&
+				value.includes(predicate.value)
+			);
+		}
+		case "range":
+			return isWithinRange(metadata?.[predicate.key], predicate);
+	}
+}
+
+/**
+ * Compare a metadata value against range bounds
+ *
+ * Numeric bounds compare numbers; timestamp bounds compare parsed dates.
+ */
+function isWithinRange(
+	value: unknown,
+	bounds: Extract<MetadataPredicate, { op: "range" }>,
+): boolean {
+	const toComparable = (input: unknown, bound: number | string) => {
+		if (typeof bound === "number") {
+			return typeof input === "number" ? input : Number.NaN;
+		}
+		return typeof input === "string" ? Date.parse(input) : Number.NaN;
+	};
+
+	const checks: [
+		number | string | undefined,
+		(a: number, b: number) => boolean,
+	][] = [
+		[bounds.gt, (a, b) => a > b],
+		[bounds.gte, (a, b) => a >= b],
+		[bounds.lt, (a, b) => a < b],
+		[bounds.lte, (a, b) => a <= b],
+	];
+
+	return checks.every(([bound, compare]) => {
+		if (bound === undefined) {
+			return true;
+		}
+		const actual = toComparable(value, bound);
+		const limit = typeof bound === "number" ? bound : Date.parse(bound);
+		// NaN (missing or mistyped value) fails every comparison
+		return compare(actual, limit);
+	});
+}
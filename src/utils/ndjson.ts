@@ -0,0 +1,52 @@
+import type { Response } from "express";
+
+/**
+ * Stream records to the client as newline-delimited JSON (NDJSON)
+ *
+ * Records are pulled from the iterable one at a time and written as they
+ * arrive, waiting for the socket to drain when the client reads slower than
+ * records are produced. Iteration stops early when the client disconnects.
+ *
+ * Headers are only sent once the first record (or the end of an empty
+ * stream) is available, so an error thrown before that can still be
+ * answered with a regular JSON error response; check `res.headersSent`.
+ *
+ * @param res - Express response to write to
+ * @param records - Records to serialize, one JSON object per line
+ * @param filename - Suggested download file name
+ */
+export async function streamNdjson(
+	res: Response,
+	records: AsyncIterable<unknown>,
+	filename: string,
+): Promise<void> {
+	const iterator = records[Symbol.asyncIterator]();
+	let next = await iterator.next();
+
+	res.status(200);
+	res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+	res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+	while (!next.done) {
+		if (!res.write(`${JSON.stringify(next.value)}\n`)) {
+			await new Promise<void>((resolve) => {
+				const done = () => {
+					res.off("drain", done);
+					res.off("close", done);
+					resolve();
+				};
+				res.on("drain", done);
+				res.on("close", done);
+			});
+		}
+
+		if (res.destroyed) {
+			await iterator.return?.();
+			return;
+		}
+
+		next = await iterator.next();
+	}
+
+	res.end();
+}
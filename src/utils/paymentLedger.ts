@@ -0,0 +1,163 @@
+import type { PlanId } from "../config/plans.js";
+import type { Payment } from "../database/models/payments.js";
+import type {
+	PaymentService,
+	PaymentVerificationResult,
+	VerifiedPayment,
+} from "../services/PaymentService.js";
+
+// Pending payments older than this were abandoned (e.g. the process restarted) and can be claimed again
+const PENDING_STALE_MS = 10 * 60 * 1000;
+
+export type RedeemPaymentResult<T> =
+	| { ok: true; payment: Payment; result: T }
+	| { ok: false; status: 400 | 409 | 502; error: string };
+
+export interface RedeemPaymentParams {
+	userId: string; // Clerk user ID redeeming the payment
+	txHash: string;
+	planId: PlanId;
+	walletAddress: string; // The user's wallet, which must have sent the payment
+}
+
+/**
+ * Where payments are recorded, one per (chainId, txHash)
+ *
+ * `claim` must be atomic: it reserves a hash never seen before, one whose
+ * payment was rejected, or one left pending since before `staleBefore`, and
+ * returns undefined for any other hash. `confirm` only confirms a payment
+ * still pending under the claim made at `claimedAt`, and returns undefined
+ * once the payment was claimed again.
+ */
+export interface PaymentStore {
+	claim(
+		payment: {
+			chainId: number;
+			txHash: string;
+			clerkUserId: string;
+			plan: PlanId;
+		},
+		staleBefore: Date,
+	): Promise<Payment | undefined>;
+	find(chainId: number, txHash: string): Promise<Payment | undefined>;
+	confirm(
+		id: string,
+		claimedAt: Date,
+		details: Pick<Payment, "currency" | "amount" | "fromAddress">,
+	): Promise<Payment | undefined>;
+	reject(id: string, error: string): Promise<unknown>;
+}
+
+/**
+ * Create a function redeeming payment transactions for subscriptions, at most once
+ *
+ * The returned function reserves the transaction hash in the store, verifies
+ * the payment on-chain, confirms it and then runs `apply` (which activates
+ * the subscription). Reusing a hash that is confirmed or being redeemed is
+ * answered with 409. Rejected payments, and payments whose `apply` failed,
+ * are rolled back to rejected, releasing the hash so the user can retry it.
+ *
+ * @param options.store - Payment records, see PaymentStore
+ * @param options.payments - On-chain payment verification
+ * @param options.now - Clock, for tests
+ *
+ * @example
+ * ```typescript
+ * const redeemPayment = createPaymentLedger({ store, payments: getPaymentService });
+ * const redemption = await redeemPayment(
+ *   { userId, txHash, planId: "pro", walletAddress },
+ *   () => createUserSubscription({ ... }),
+ * );
+ * if (!redemption.ok) {
+ *   res.status(redemption.status).json({ txHash, error: redemption.error });
+ * }
+ * ```
+ */
+export function createPaymentLedger(options: {
+	store: PaymentStore;
+	payments: () => Pick<PaymentService, "chainId" | "verifyPayment">;
+	now?: () => number;
+}) {
+	const { store } = options;
+	const now = options.now ?? Date.now;
+
+	/**
+	 * @param params - The payment to redeem
+	 * @param apply - Activates the subscription once the payment is verified
+	 * @returns The confirmed payment with the result of `apply`, or an HTTP status and error
+	 * @throws {Error} If the store or `apply` fail
+	 */
+	return async <T>(
+		params: RedeemPaymentParams,
+		apply: (payment: VerifiedPayment) => Promise<T>,
+	): Promise<RedeemPaymentResult<T>> => {
+		const payments = options.payments();
+		const txHash = params.txHash.toLowerCase();
+
+		const claimed = await store.claim(
+			{
+				chainId: payments.chainId,
+				txHash,
+				clerkUserId: params.userId,
+				plan: params.planId,
+			},
+			new Date(now() - PENDING_STALE_MS),
+		);
+
+		if (!claimed) {
+			const existing = await store.find(payments.chainId, txHash);
+			return {
+				ok: false,
+				status: 409,
+				error:
+					existing?.status === "pending"
+						? "Transaction is already being redeemed"
+						: "Transaction has already been used for a payment",
+			};
+		}
+
+		let verification: PaymentVerificationResult;
+		try {
+			verification = await payments.verifyPayment({
+				txHash,
+				planId: params.planId,
+				walletAddress: params.walletAddress,
+			});
+		} catch (error) {
+			console.error("Payment verification error:", error);
+			await store.reject(claimed.id, "Could not verify transaction");
+			return { ok: false, status: 502, error: "Could not verify transaction" };
+		}
+
+		if (!verification.verified) {
+			await store.reject(claimed.id, verification.reason);
+			return { ok: false, status: 400, error: verification.reason };
+		}
+
+		// Confirm before `apply`, so a crash after activating cannot leave the hash redeemable
+		const { currency, amount, from } = verification.payment;
+		const payment = await store.confirm(claimed.id, claimed.updatedAt, {
+			currency,
+			amount,
+			fromAddress: from,
+		});
+
+		if (!payment) {
+			return {
+				ok: false,
+				status: 409,
+				error: "Transaction is already being redeemed",
+			};
+		}
+
+		let result: T;
+		try {
+			result = await apply(verification.payment);
+		} catch (error) {
+			await store.reject(claimed.id, "Subscription could not be activated");
+			throw error;
+		}
+
+		return { ok: true, payment, result };
+	};
+}
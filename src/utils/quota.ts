@@ -0,0 +1,154 @@
+import type { NextFunction, Request, Response } from "express";
+import type { UserSubscription } from "../database/models/UserSubscription.js";
+import { errorResponse } from "./responses.js";
+
+type QuotaSubscription = Pick<
+	UserSubscription,
+	"plan" | "isActive" | "quotaLimit" | "quotaUsed" | "renewsAt"
+>;
+
+export interface QuotaEnforcerOptions {
+	consume: (
+		userId: string,
+		amount: number,
+	) => Promise<QuotaSubscription | undefined>; // Charge atomically, resetting an expired period; undefined when inactive or exhausted
+	release: (userId: string, amount: number) => Promise<void>;
+	getSubscription: (userId: string) => Promise<QuotaSubscription | undefined>;
+	now?: () => number;
+}
+
+/**
+ * Create middleware charging memory operations against the caller's subscription quota
+ *
+ * Consumes `cost(req)` units of the quota of the user owning the instance key
+ * (see verifyContractHashMiddleware) in one atomic update, and rejects the
+ * request with 429 once the quota is used up. Quotas reset when the
+ * subscription's renewsAt passes. Units are given back when the request
+ * fails, e.g. on invalid search parameters or a failed contract write;
+ * handlers give back part of the charge with refundQuota, e.g. for failed
+ * items of a batch.
+ *
+ * Sets `X-Quota-Limit`, `X-Quota-Remaining` and `X-Quota-Reset` (Unix seconds
+ * of the next reset) on every charged or quota-exceeded response.
+ *
+ * @example
+ * ```typescript
+ * const enforceQuota = createQuotaEnforcer({ consume, release, getSubscription });
+ * router.post("/batch", validateData(schema), enforceQuota((req) => req.body.memories.length), handler);
+ * ```
+ */
+export function createQuotaEnforcer(options: QuotaEnforcerOptions) {
+	const now = options.now ?? Date.now;
+
+	return (cost: (req: Request) => number | Promise<number> = () => 1) =>
+		async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+			const userId = req.contract?.userId;
+			if (!userId) {
+				res
+					.status(401)
+					.json(
+						errorResponse(
+							"Unauthorized",
+							"Requests must be authenticated with an instance key",
+						),
+					);
+				return;
+			}
+
+			try {
+				const amount = await cost(req);
+				const subscription = await options.consume(userId, amount);
+
+				if (!subscription) {
+					const current = await options.getSubscription(userId);
+
+					if (!current?.isActive) {
+						res
+							.status(403)
+							.json(
+								errorResponse(
+									"No active subscription",
+									"Memory operations require an active subscription",
+								),
+							);
+						return;
+					}
+
+					// An expired period counts as reset; the charge alone exceeds the limit
+					const remaining =
+						current.renewsAt.getTime() <= now()
+							? current.quotaLimit
+							: Math.max(0, current.quotaLimit - current.quotaUsed);
+					setQuotaHeaders(res, current.quotaLimit, remaining, current.renewsAt);
+					res.setHeader(
+						"Retry-After",
+						Math.max(0, Math.ceil((current.renewsAt.getTime() - now()) / 1000)),
+					);
+					res
+						.status(429)
+						.json(
+							errorResponse(
+								"Quota exceeded",
+								`This request needs ${amount} of your ${current.quotaLimit} ${current.plan} plan operations, and ${remaining} remain until ${current.renewsAt.toISOString()}`,
+							),
+						);
+					return;
+				}
+
+				setQuotaHeaders(
+					res,
+					subscription.quotaLimit,
+					subscription.quotaLimit - subscription.quotaUsed,
+					subscription.renewsAt,
+				);
+
+				res.on("finish", () => {
+					const refund =
+						res.statusCode >= 400
+							? amount
+							: Math.min(amount, res.locals.quotaRefund ?? 0);
+					if (refund > 0) {
+						options.release(userId, refund).catch((error) => {
+							console.error("Failed to release quota:", error);
+						});
+					}
+				});
+
+				next();
+			} catch (error) {
+				console.error("Quota check error:", error);
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Failed to check quota",
+							error instanceof Error ? error.message : "Unknown error",
+						),
+					);
+			}
+		};
+}
+
+/**
+ * Give back part of the quota charged by enforceQuota once the response is sent
+ *
+ * For successful responses that did less work than they were charged for,
+ * e.g. a batch whose items partly failed. Failed responses are refunded in
+ * full anyway.
+ *
+ * @param units - Quota units to give back
+ */
+export function refundQuota(res: Response, units: number): void {
+	res.locals.quotaRefund = (res.locals.quotaRefund ?? 0) + units;
+}
+
+function setQuotaHeaders(
+	res: Response,
+	limit: number,
+	remaining: number,
+	resetsAt: Date,
+): void {
+	res.setHeader("X-Quota-Limit", limit);
+	res.setHeader("X-Quota-Remaining", remaining);
+	res.setHeader("X-Quota-Reset", Math.floor(resetsAt.getTime() / 1000));
+}
@@ -0,0 +1,289 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Redis } from "ioredis";
+import { PLANS, type PlanId } from "../config/plans.js";
+import { errorResponse } from "./responses.js";
+
+export interface RateLimit {
+	requestsPerMinute: number; // Sustained rate: tokens added per minute
+	burst: number; // Bucket capacity: requests allowed at once
+}
+
+export interface BucketResult {
+	allowed: boolean;
+	remaining: number; // Whole tokens left after this request
+	retryAfterSeconds: number; // Until the next token, 0 when allowed
+}
+
+/**
+ * Where token buckets are kept
+ *
+ * `take` refills the bucket for the time elapsed since its last use, then
+ * removes one token if there is one. It must be atomic per key.
+ */
+export interface RateLimitStore {
+	take(key: string, limit: RateLimit, now: number): Promise<BucketResult>;
+}
+
+/** Route groups with their own buckets and limits */
+export type RateLimitGroup = "memories" | "account" | "deploy" | "etherscan";
+
+/**
+ * Limits per route group
+ *
+ * "plan" takes the limit of the caller's subscription plan (basic without
+ * one), see config/plans.ts. Fixed limits apply to every caller alike.
+ */
+export const RATE_LIMIT_GROUPS: Record<RateLimitGroup, RateLimit | "plan"> = {
+	memories: "plan",
+	account: { requestsPerMinute: 60, burst: 20 },
+	deploy: { requestsPerMinute: 2, burst: 2 }, // Every call deploys a contract from our wallet
+	etherscan: { requestsPerMinute: 10, burst: 5 }, // Spends our Etherscan API key
+};
+
+// Plan limits for callers without a subscription
+const DEFAULT_PLAN: PlanId = "basic";
+
+// Above this many buckets, full ones are dropped from memory
+const MAX_MEMORY_BUCKETS = 10000;
+
+/**
+ * Refill a bucket and take a token
+ *
+ * @returns The bucket's new token count and the outcome
+ */
+function takeToken(
+	bucket: { tokens: number; updatedAt: number } | undefined,
+	limit: RateLimit,
+	now: number,
+): { tokens: number; result: BucketResult } {
+	const ratePerMs = limit.requestsPerMinute / 60000;
+	const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+	let tokens = Math.min(
+		limit.burst,
+		(bucket?.tokens ?? limit.burst) + elapsed * ratePerMs,
+	);
+
+	if (tokens >= 1) {
+		tokens -= 1;
+		return {
+			tokens,
+			result: {
+				allowed: true,
+				remaining: Math.floor(tokens),
+				retryAfterSeconds: 0,
+			},
+		};
+	}
+
+	return {
+		tokens,
+		result: {
+			allowed: false,
+			remaining: 0,
+			retryAfterSeconds: Math.ceil((1 - tokens) / ratePerMs / 1000),
+		},
+	};
+}
+
+/**
+ * Token buckets in process memory, per API process
+ *
+ * Used without REDIS_URL and while Redis is unreachable.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+	private buckets = new Map<
+		string,
+		{ tokens: number; updatedAt: number; limit: RateLimit }
+	>();
+
+	async take(
+		key: string,
+		limit: RateLimit,
+		now: number,
+	): Promise<BucketResult> {
+		const { tokens, result } = takeToken(this.buckets.get(key), limit, now);
+		this.buckets.set(key, { tokens, updatedAt: now, limit });
+
+		if (this.buckets.size > MAX_MEMORY_BUCKETS) {
+			this.dropFullBuckets(now);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Forget buckets that have refilled completely; they behave like new ones
+	 *
+	 * @private
+	 */
+	private dropFullBuckets(now: number): void {
+		for (const [key, bucket] of this.buckets) {
+			const refillMs =
+				((bucket.limit.burst - bucket.tokens) * 60000) /
+				bucket.limit.requestsPerMinute;
+
+			if (now - bucket.updatedAt >= refillMs) {
+				this.buckets.delete(key);
+			}
+		}
+	}
+}
+
+// Same refill as takeToken, run atomically in Redis. Tokens are returned as a
+// string since Redis truncates Lua numbers to integers.
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local ratePerMs = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(bucket[1]) or capacity
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * ratePerMs)
+local allowed = 0
+if tokens >= 1 then
+	tokens = tokens - 1
+	allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", tostring(now))
+redis.call("PEXPIRE", KEYS[1], math.ceil(capacity / ratePerMs))
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * Token buckets in Redis, shared by all API processes
+ *
+ * Buckets expire once they would have refilled completely.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+	constructor(private redis: Redis) {}
+
+	async take(
+		key: string,
+		limit: RateLimit,
+		now: number,
+	): Promise<BucketResult> {
+		const ratePerMs = limit.requestsPerMinute / 60000;
+		const [allowed, value] = (await this.redis.eval(
+			TAKE_TOKEN_SCRIPT,
+			1,
+			`ratelimit:${key}`,
+			limit.burst,
+			ratePerMs,
+			now,
+		)) as [number, string];
+
+		const tokens = Number(value);
+
+		return allowed === 1
+			? { allowed: true, remaining: Math.floor(tokens), retryAfterSeconds: 0 }
+			: {
+					allowed: false,
+					remaining: 0,
+					retryAfterSeconds: Math.ceil((1 - tokens) / ratePerMs / 1000),
+				};
+	}
+}
+
+export interface RateLimiterOptions {
+	store: () => RateLimitStore | Promise<RateLimitStore>;
+	getPlan: (userId: string) => Promise<PlanId | null>; // Plan of an active subscription, if any
+	now?: () => number;
+}
+
+/**
+ * Identify who a request is limited as: instance key, Clerk user or IP
+ */
+export function rateLimitIdentity(req: Request): {
+	key: string;
+	userId?: string;
+} {
+	if (req.contract) {
+		return {
+			key: `instance:${req.contract.contractId}`,
+			userId: req.contract.userId,
+		};
+	}
+	if (req.userId) {
+		return { key: `user:${req.userId}`, userId: req.userId };
+	}
+	return { key: `ip:${req.ip ?? req.socket.remoteAddress ?? "unknown"}` };
+}
+
+/**
+ * Create rate limiting middleware backed by token buckets
+ *
+ * Each route group has its own bucket per caller, so heavy memory traffic
+ * does not lock a user out of account management. Place the middleware
+ * after authentication so callers are identified by instance key or Clerk
+ * user rather than by IP.
+ *
+ * Allowed responses carry `X-RateLimit-Limit` (requests per minute) and
+ * `X-RateLimit-Remaining`; rejected ones are answered with 429 and
+ * `Retry-After` in seconds.
+ *
+ * When the store fails (e.g. Redis is unreachable), requests are limited by
+ * a bucket in process memory instead.
+ *
+ * @example
+ * ```typescript
+ * const rateLimit = createRateLimiter({
+ *   store: () => new MemoryRateLimitStore(),
+ *   getPlan: async () => "pro",
+ * });
+ * app.use("/etherscan", rateLimit("etherscan"), etherScanRouter);
+ * ```
+ */
+export function createRateLimiter(options: RateLimiterOptions) {
+	const fallbackStore = new MemoryRateLimitStore();
+	const now = options.now ?? Date.now;
+
+	return (group: RateLimitGroup) =>
+		async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+			const { key, userId } = rateLimitIdentity(req);
+			const bucketKey = `${group}:${key}`;
+
+			let result: BucketResult;
+			let limit: RateLimit;
+
+			try {
+				const groupLimit = RATE_LIMIT_GROUPS[group];
+				limit =
+					groupLimit === "plan"
+						? PLANS[
+								(userId ? await options.getPlan(userId) : null) ?? DEFAULT_PLAN
+							].rateLimit
+						: groupLimit;
+
+				try {
+					const store = await options.store();
+					result = await store.take(bucketKey, limit, now());
+				} catch (error) {
+					console.warn("Rate limit store failed, limiting in memory:", error);
+					result = await fallbackStore.take(bucketKey, limit, now());
+				}
+			} catch (error) {
+				// Never fail a request because its limit could not be determined
+				console.error("Rate limit check error:", error);
+				next();
+				return;
+			}
+
+			res.setHeader("X-RateLimit-Limit", limit.requestsPerMinute);
+			res.setHeader("X-RateLimit-Remaining", result.remaining);
+
+			if (!result.allowed) {
+				res.setHeader("Retry-After", result.retryAfterSeconds);
+				res
+					.status(429)
+					.json(
+						errorResponse(
+							"Too many requests",
+							`Rate limit of ${limit.requestsPerMinute} requests per minute exceeded, retry in ${result.retryAfterSeconds}s`,
+						),
+					);
+				return;
+			}
+
+			next();
+		};
+}
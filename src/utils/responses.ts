@@ -6,6 +6,7 @@ export interface ApiResponse<T = unknown> {
 	success: boolean;
 	message: string;
 	data?: T;
+	meta?: Record<string, unknown>; // Extra information about the result, e.g. search statistics
 	error?: string;
 	timestamp: string;
 }
@@ -16,11 +17,13 @@ export interface ApiResponse<T = unknown> {
 export function successResponse<T>(
 	data: T,
 	message = "Success",
+	meta?: Record<string, unknown>,
 ): ApiResponse<T> {
 	return {
 		success: true,
 		message,
 		data,
+		...(meta ? { meta } : {}),
 		timestamp: new Date().toISOString(),
 	};
 }
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { collapseChunkHits, splitIntoChunks } from '../src/utils/chunking.js';
+
+// One token per word, or per character for the oversized-word case
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const countChars = (text: string) => text.length;
+
+describe('Chunking', () => {
+  describe('splitIntoChunks', () => {
+    it('should return text that fits the budget as one chunk', () => {
+      const text = 'User prefers dark mode.';
+      expect(splitIntoChunks(text, countWords, { maxTokens: 10, overlapTokens: 2 })).toEqual([
+        { text, start: 0, end: text.length, tokens: 4 },
+      ]);
+    });
+
+    it('should return empty text as one empty chunk', () => {
+      expect(splitIntoChunks('', countWords, { maxTokens: 10, overlapTokens: 2 })).toEqual([
+        { text: '', start: 0, end: 0, tokens: 0 },
+      ]);
+    });
+
+    it('should split on word boundaries within the token budget', () => {
+      const text = 'w1 w2 w3 w4 w5 w6 w7 w8 w9 w10';
+      const chunks = splitIntoChunks(text, countWords, { maxTokens: 4, overlapTokens: 1 });
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual([
+        'w1 w2 w3 w4',
+        'w4 w5 w6 w7',
+        'w7 w8 w9 w10',
+      ]);
+      for (const chunk of chunks) {
+        expect(chunk.tokens).toBeLessThanOrEqual(4);
+        expect(text.slice(chunk.start, chunk.end).trimEnd()).toBe(chunk.text);
+      }
+      expect(chunks[chunks.length - 1].end).toBe(text.length);
+    });
+
+    it('should repeat the overlap from the end of the previous chunk', () => {
+      const text = 'a b c d e f g h';
+      const chunks = splitIntoChunks(text, countWords, { maxTokens: 5, overlapTokens: 2 });
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual(['a b c d e', 'd e f g h']);
+    });
+
+    it('should not overlap chunks without an overlap budget', () => {
+      const text = 'a b c d e f';
+      const chunks = splitIntoChunks(text, countWords, { maxTokens: 2, overlapTokens: 0 });
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual(['a b', 'c d', 'e f']);
+    });
+
+    it('should keep casing and punctuation and give an oversized word its own chunk', () => {
+      const text = 'Hi, supercalifragilistic World!';
+      const chunks = splitIntoChunks(text, countChars, { maxTokens: 8, overlapTokens: 3 });
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual(['Hi,', 'supercalifragilistic', 'World!']);
+      expect(chunks[1].tokens).toBe(20);
+    });
+  });
+
+  describe('collapseChunkHits', () => {
+    const chunk = (id: number, parentId: number, chunkIndex: number, content: string) => ({
+      id,
+      content,
+      metadata: { parentId, chunkIndex },
+    });
+
+    it('should collapse chunk hits into their memory, ranked by the best hit', () => {
+      const hits = [
+        chunk(12, 7, 2, 'best chunk of memory 7'),
+        { id: 3, content: 'memory 3' },
+        chunk(11, 7, 0, 'another chunk of memory 7'),
+        { id: 7, content: 'memory 7' },
+      ];
+
+      const result = collapseChunkHits(hits, 10);
+
+      expect(result.hits.map((hit) => hit.id)).toEqual([7, 3]);
+      expect(result.hits[0].highlight).toEqual({ chunkIndex: 2, content: 'best chunk of memory 7' });
+      expect(result.hits[1].highlight).toBeUndefined();
+      expect(result.unresolved).toEqual([7]);
+    });
+
+    it('should not ask to load memories that were hit directly', () => {
+      const result = collapseChunkHits([{ id: 9, content: 'memory 9' }, chunk(20, 9, 1, 'chunk of memory 9')], 10);
+
+      expect(result.hits).toEqual([
+        { id: 9, content: 'memory 9', highlight: { chunkIndex: 1, content: 'chunk of memory 9' } },
+      ]);
+      expect(result.unresolved).toEqual([]);
+    });
+
+    it('should keep only the first k memories and leave the hits untouched', () => {
+      const hits = [{ id: 1 }, chunk(10, 2, 0, 'chunk of memory 2'), { id: 3 }, chunk(11, 1, 1, 'chunk of memory 1')];
+
+      const result = collapseChunkHits(hits, 2);
+
+      expect(result.hits.map((hit) => hit.id)).toEqual([1, 2]);
+      expect(result.hits[0].highlight?.chunkIndex).toBe(1);
+      expect(hits[0]).toEqual({ id: 1 });
+      expect(hits[1].id).toBe(10);
+    });
+  });
+});
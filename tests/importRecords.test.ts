@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { canReuseVector, parseImport } from '../src/utils/importRecords.js';
+
+const embedding = { provider: 'xenova', model: 'Xenova/all-MiniLM-L6-v2' };
+
+const vectorRecord = (overrides: Record<string, unknown> = {}) => ({
+  content: 'User prefers dark mode',
+  vector: [0.1, 0.2, 0.3],
+  ...embedding,
+  ...overrides,
+});
+
+describe('Import records', () => {
+  describe('parseImport', () => {
+    it('should parse every line with its 1-based line number', () => {
+      const ndjson = [
+        JSON.stringify({ content: 'first' }),
+        JSON.stringify({ content: 'second', metadata: { tags: ['preference'] } }),
+      ].join('\n');
+
+      const { records, errors } = parseImport(ndjson);
+
+      expect(errors).toEqual([]);
+      expect(records).toMatchObject([
+        { line: 1, record: { content: 'first' } },
+        { line: 2, record: { content: 'second', metadata: { tags: ['preference'] } } },
+      ]);
+    });
+
+    it('should skip blank lines and CRLF endings without shifting line numbers', () => {
+      const ndjson = `\r\n${JSON.stringify({ content: 'a' })}\r\n   \n${JSON.stringify({ content: 'b' })}\n`;
+
+      const { records, errors } = parseImport(ndjson);
+
+      expect(errors).toEqual([]);
+      expect(records.map(({ line }) => line)).toEqual([2, 4]);
+    });
+
+    it('should report invalid JSON by line and keep the valid lines', () => {
+      const ndjson = [JSON.stringify({ content: 'ok' }), '{"content": ', JSON.stringify({ content: 'also ok' })].join('\n');
+
+      const { records, errors } = parseImport(ndjson);
+
+      expect(errors).toEqual([{ line: 2, error: 'Invalid JSON' }]);
+      expect(records.map(({ line }) => line)).toEqual([1, 3]);
+    });
+
+    it('should report schema errors with the offending path', () => {
+      const { records, errors } = parseImport(JSON.stringify({ content: '' }));
+
+      expect(records).toEqual([]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].line).toBe(1);
+      expect(errors[0].error).toMatch(/^content: /);
+    });
+
+    it('should report a line that is not an object', () => {
+      const { errors } = parseImport('[1, 2, 3]\n"text"');
+
+      expect(errors.map(({ line }) => line)).toEqual([1, 2]);
+    });
+
+    it('should validate lines carrying a vector against the vector record schema', () => {
+      const ndjson = [
+        JSON.stringify(vectorRecord()),
+        JSON.stringify(vectorRecord({ provider: undefined })),
+      ].join('\n');
+
+      const { records, errors } = parseImport(ndjson);
+
+      expect(records).toEqual([{ line: 1, record: vectorRecord() }]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ line: 2, error: expect.stringContaining('provider') });
+    });
+  });
+
+  describe('canReuseVector', () => {
+    const parse = (value: unknown) => parseImport(JSON.stringify(value)).records[0].record;
+
+    it('should reuse a vector from the same provider and model', () => {
+      expect(canReuseVector(parse(vectorRecord()), embedding, { dimensions: 3 }, 1)).toBe(true);
+    });
+
+    it('should reuse a vector before the contract has an embedding profile', () => {
+      expect(canReuseVector(parse(vectorRecord()), embedding, null, 1)).toBe(true);
+    });
+
+    it('should re-embed a record without a vector', () => {
+      expect(canReuseVector(parse({ content: 'plain' }), embedding, { dimensions: 3 }, 1)).toBe(false);
+    });
+
+    it('should re-embed a vector from another provider or model', () => {
+      expect(canReuseVector(parse(vectorRecord({ provider: 'openai' })), embedding, null, 1)).toBe(false);
+      expect(canReuseVector(parse(vectorRecord({ model: 'other-model' })), embedding, null, 1)).toBe(false);
+    });
+
+    it('should re-embed a vector whose dimensions differ from the contract', () => {
+      expect(canReuseVector(parse(vectorRecord()), embedding, { dimensions: 384 }, 1)).toBe(false);
+    });
+
+    it('should re-embed content that splits into several chunks', () => {
+      expect(canReuseVector(parse(vectorRecord()), embedding, { dimensions: 3 }, 2)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { EizenService, EizenStoredVector } from '../src/services/EizenService.js';
+import { KeywordIndex, fuseRankings, tokenize } from '../src/services/KeywordIndex.js';
+
+// Stand-in for a contract: graph nodes with their stable IDs, and tombstoned nodes
+const fakeContract = (vectors: EizenStoredVector[], tombstones: number[] = []) =>
+  ({
+    scanVectors: async (fromNodeId: number, limit: number) => {
+      const page = vectors.filter((vector) => vector.nodeId >= fromNodeId).slice(0, limit);
+      const end = fromNodeId + page.length;
+      return { vectors: page, nextNodeId: end < vectors.length ? end : null, nodeCount: vectors.length };
+    },
+    listTombstones: async () => tombstones,
+  }) as unknown as EizenService;
+
+const memory = (nodeId: number, content: string, extra: Record<string, unknown> = {}, id = nodeId): EizenStoredVector => ({
+  id,
+  nodeId,
+  point: [0],
+  metadata: { content, ...extra },
+});
+
+describe('Keyword index', () => {
+  describe('tokenize', () => {
+    it('should lowercase words and strip surrounding punctuation', () => {
+      expect(tokenize('Hello, World! (again)')).toEqual(['hello', 'world', 'again']);
+    });
+
+    it('should keep identifiers whole and index their parts', () => {
+      expect(tokenize('Fixed ENG-1234 in src/routes/memories.ts, ping bob@example.com!')).toEqual([
+        'fixed',
+        'eng-1234', 'eng', '1234',
+        'in',
+        'src/routes/memories.ts', 'src', 'routes', 'memories', 'ts',
+        'ping',
+        'bob@example.com', 'bob', 'example', 'com',
+      ]);
+    });
+
+    it('should return no tokens for blank text', () => {
+      expect(tokenize('  ...  ')).toEqual([]);
+    });
+  });
+
+  describe('BM25 search', () => {
+    const build = async (vectors: EizenStoredVector[], tombstones: number[] = []) => {
+      const index = new KeywordIndex();
+      await index.sync(fakeContract(vectors, tombstones));
+      return index;
+    };
+
+    it('should score documents with BM25', async () => {
+      const index = await build([
+        memory(0, 'apple banana'),
+        memory(1, 'apple apple cherry'),
+        memory(2, 'durian'),
+      ]);
+
+      // One matching document of average length scores exactly the term's IDF
+      const banana = index.search('banana', 10);
+      expect(banana.results.map((result) => result.id)).toEqual([0]);
+      expect(banana.results[0].score).toBeCloseTo(Math.log(1 + 2.5 / 1.5), 10);
+
+      // A longer document with the term twice beats a shorter one with it once
+      const appleIdf = Math.log(1 + 1.5 / 2.5);
+      const apple = index.search('apple', 10);
+      expect(apple.results.map((result) => result.id)).toEqual([1, 0]);
+      expect(apple.results[0].score).toBeCloseTo((appleIdf * 2 * 2.2) / (2 + 1.2 * (0.25 + 0.75 * 1.5)), 10);
+      expect(apple.results[1].score).toBeCloseTo(appleIdf, 10);
+      expect(apple.documentsScored).toBe(2);
+    });
+
+    it('should add up the scores of every query term', async () => {
+      const index = await build([memory(0, 'apple banana'), memory(1, 'apple cherry'), memory(2, 'banana')]);
+
+      const results = index.search('apple banana', 10).results;
+      expect(results[0].id).toBe(0);
+      expect(results).toHaveLength(3);
+    });
+
+    it('should apply k and the metadata filter', async () => {
+      const index = await build([
+        memory(0, 'deploy notes', { client: 'cursor' }),
+        memory(1, 'deploy checklist', { client: 'claude' }),
+        memory(2, 'deploy deploy', { client: 'cursor' }),
+      ]);
+
+      expect(index.search('deploy', 1).results.map((result) => result.id)).toEqual([2]);
+      const filtered = index.search('deploy', 10, (metadata) => metadata?.client === 'cursor');
+      expect(filtered.results.map((result) => result.id).sort()).toEqual([0, 2]);
+    });
+
+    it('should report stable IDs and drop tombstoned nodes', async () => {
+      // Node 2 re-embedded memory 0, whose original node is tombstoned
+      const index = await build(
+        [memory(0, 'old wording'), memory(1, 'unrelated'), memory(2, 'new wording', {}, 0)],
+        [0],
+      );
+
+      expect(index.size).toBe(2);
+      expect(index.search('wording', 10).results.map((result) => result.id)).toEqual([0]);
+      expect(index.search('old', 10).results).toEqual([]);
+    });
+  });
+
+  describe('fuseRankings', () => {
+    it('should rank results found by several lists first', () => {
+      const semantic = [{ id: 1, distance: 0.1 }, { id: 2, distance: 0.2 }, { id: 3, distance: 0.3 }];
+      const keyword = [{ id: 3 }, { id: 1 }];
+
+      const fused = fuseRankings<{ id: number; distance?: number }>([semantic, keyword], 10);
+
+      expect(fused.map((result) => result.id)).toEqual([1, 3, 2]);
+      expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62, 10);
+      expect(fused[1].score).toBeCloseTo(1 / 63 + 1 / 61, 10);
+      expect(fused[2].score).toBeCloseTo(1 / 62, 10);
+      // Distances come from the list that reported them
+      expect(fused[1].distance).toBe(0.3);
+    });
+
+    it('should return at most k results', () => {
+      expect(fuseRankings([[{ id: 1 }, { id: 2 }, { id: 3 }]], 2).map((result) => result.id)).toEqual([1, 2]);
+    });
+  });
+
+  describe('registry', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      for (const contractId of ['a', 'b', 'c']) {
+        KeywordIndex.drop(contractId);
+      }
+    });
+
+    it('should share an index per contract until it is dropped', () => {
+      const index = KeywordIndex.forContract('a');
+      expect(KeywordIndex.forContract('a')).toBe(index);
+
+      KeywordIndex.drop('a');
+      expect(KeywordIndex.forContract('a')).not.toBe(index);
+    });
+
+    it('should evict the least recently used index beyond the cache size', () => {
+      vi.stubEnv('EIZEN_CACHE_SIZE', '2');
+      const a = KeywordIndex.forContract('a');
+      const b = KeywordIndex.forContract('b');
+      KeywordIndex.forContract('a'); // b is now the least recently used
+      KeywordIndex.forContract('c');
+
+      expect(KeywordIndex.forContract('a')).toBe(a);
+      expect(KeywordIndex.forContract('b')).not.toBe(b);
+    });
+  });
+});
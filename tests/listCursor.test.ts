@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { listMemoriesSchema } from '../src/schemas/memory.js';
+import { type MemoryListCursor, decodeListCursor, encodeListCursor } from '../src/utils/listCursor.js';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+
+describe('Memory list cursor', () => {
+  it('should round-trip cursors of every sort', () => {
+    const cursors: MemoryListCursor[] = [
+      { sort: 'id', order: 'desc', value: 42, memoryId: 42 },
+      { sort: 'timestamp', order: 'asc', value: '2025-06-15T10:30:00.000Z', memoryId: 7 },
+      { sort: 'importance', order: 'desc', value: 8, memoryId: 0 },
+    ];
+
+    for (const cursor of cursors) {
+      const encoded = encodeListCursor(cursor);
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/); // Safe in a query string
+      expect(decodeListCursor(encoded)).toEqual(cursor);
+    }
+  });
+
+  it('should reject strings that are not cursors', () => {
+    expect(decodeListCursor('not a cursor')).toBeNull();
+    expect(decodeListCursor(encode({ sort: 'content', order: 'desc', value: 1, memoryId: 1 }))).toBeNull();
+    expect(decodeListCursor(encode({ sort: 'id', order: 'sideways', value: 1, memoryId: 1 }))).toBeNull();
+    expect(decodeListCursor(encode({ sort: 'id', order: 'asc', value: 1, memoryId: 1.5 }))).toBeNull();
+    expect(decodeListCursor(encode({ sort: 'id', order: 'asc', value: null, memoryId: 1 }))).toBeNull();
+  });
+
+  describe('list request', () => {
+    const cursor = encodeListCursor({ sort: 'timestamp', order: 'desc', value: '2025-06-15T10:30:00.000Z', memoryId: 7 });
+
+    it('should accept a cursor issued for the same sort and order', () => {
+      const parsed = listMemoriesSchema.safeParse({ cursor, sort: 'timestamp', order: 'desc' });
+      expect(parsed.success).toBe(true);
+      expect(parsed.success && parsed.data.cursor?.memoryId).toBe(7);
+    });
+
+    it('should reject a cursor issued for a different sort or order', () => {
+      for (const request of [{ sort: 'id', order: 'desc' }, { sort: 'timestamp', order: 'asc' }]) {
+        const parsed = listMemoriesSchema.safeParse({ cursor, ...request });
+        expect(parsed.success).toBe(false);
+        expect(!parsed.success && parsed.error.issues[0].message).toBe('Cursor was issued for a different sort or order');
+      }
+    });
+
+    it('should reject an invalid cursor', () => {
+      const parsed = listMemoriesSchema.safeParse({ cursor: 'garbage' });
+      expect(parsed.success).toBe(false);
+      expect(!parsed.success && parsed.error.issues[0].message).toBe('Invalid cursor');
+    });
+  });
+});
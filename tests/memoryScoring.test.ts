@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SCORING_PRESETS,
+  combineScores,
+  importanceScore,
+  recencyScore,
+  resolveScoring,
+} from '../src/utils/memoryScoring.js';
+
+const NOW = Date.parse('2025-06-30T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+describe('Memory scoring', () => {
+  describe('resolveScoring', () => {
+    it('should use the preset weights and half-life', () => {
+      expect(resolveScoring({ preset: 'recent-first' })).toEqual({
+        weights: { similarity: 0.4, recency: 0.5, importance: 0.1 },
+        halfLifeDays: 7,
+      });
+      expect(resolveScoring({ preset: 'similarity' })).toEqual(SCORING_PRESETS.similarity);
+    });
+
+    it('should default to the balanced preset', () => {
+      expect(resolveScoring({} as Parameters<typeof resolveScoring>[0])).toEqual(SCORING_PRESETS.balanced);
+    });
+
+    it('should override single weights and the half-life', () => {
+      expect(resolveScoring({ preset: 'important-first', weights: { recency: 0.3 }, half_life_days: 14 })).toEqual({
+        weights: { similarity: 0.4, recency: 0.3, importance: 0.5 },
+        halfLifeDays: 14,
+      });
+    });
+
+    it('should not change the presets', () => {
+      resolveScoring({ preset: 'balanced', weights: { similarity: 0 } });
+      expect(SCORING_PRESETS.balanced.weights.similarity).toBe(0.6);
+    });
+  });
+
+  describe('recencyScore', () => {
+    it('should halve every half-life', () => {
+      expect(recencyScore({ timestamp: daysAgo(0) }, 30, NOW)).toBe(1);
+      expect(recencyScore({ timestamp: daysAgo(30) }, 30, NOW)).toBeCloseTo(0.5, 10);
+      expect(recencyScore({ timestamp: daysAgo(60) }, 30, NOW)).toBeCloseTo(0.25, 10);
+      expect(recencyScore({ timestamp: daysAgo(7) }, 7, NOW)).toBeCloseTo(0.5, 10);
+    });
+
+    it('should fall back to updatedAt and score undated memories 0', () => {
+      expect(recencyScore({ updatedAt: daysAgo(14) }, 14, NOW)).toBeCloseTo(0.5, 10);
+      expect(recencyScore({ content: 'undated' }, 30, NOW)).toBe(0);
+      expect(recencyScore({ timestamp: 'not a date' }, 30, NOW)).toBe(0);
+    });
+
+    it('should treat future timestamps as new', () => {
+      expect(recencyScore({ timestamp: daysAgo(-3) }, 30, NOW)).toBe(1);
+    });
+  });
+
+  describe('importanceScore', () => {
+    it('should map importance 1-10 onto 0..1', () => {
+      expect(importanceScore({ importance: 1 })).toBe(0);
+      expect(importanceScore({ importance: 10 })).toBe(1);
+      expect(importanceScore({ importance: 7 })).toBeCloseTo(6 / 9, 10);
+    });
+
+    it('should assume 5 without an importance and clamp out-of-range values', () => {
+      expect(importanceScore({})).toBeCloseTo(4 / 9, 10);
+      expect(importanceScore({ importance: 42 })).toBe(1);
+      expect(importanceScore({ importance: -3 })).toBe(0);
+    });
+  });
+
+  describe('combineScores', () => {
+    const breakdown = { similarity: 0.9, recency: 0.5, importance: 0.2 };
+
+    it('should take the weighted mean of the field scores', () => {
+      expect(combineScores(breakdown, SCORING_PRESETS.balanced.weights)).toBeCloseTo(0.9 * 0.6 + 0.5 * 0.2 + 0.2 * 0.2, 10);
+      expect(combineScores(breakdown, SCORING_PRESETS.similarity.weights)).toBeCloseTo(0.9, 10);
+    });
+
+    it('should normalise weights that do not add up to 1', () => {
+      expect(combineScores(breakdown, { similarity: 1, recency: 1, importance: 0 })).toBeCloseTo(0.7, 10);
+    });
+
+    it('should score 0 when every weight is 0', () => {
+      expect(combineScores(breakdown, { similarity: 0, recency: 0, importance: 0 })).toBe(0);
+    });
+
+    it('should rank a recent memory above a more similar old one with recent-first', () => {
+      const { weights, halfLifeDays } = resolveScoring({ preset: 'recent-first' });
+      const score = (similarity: number, age: number) =>
+        combineScores(
+          { similarity, recency: recencyScore({ timestamp: daysAgo(age) }, halfLifeDays, NOW), importance: importanceScore({}) },
+          weights,
+        );
+
+      expect(score(0.7, 1)).toBeGreaterThan(score(0.9, 60));
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { type MetadataPredicate, metadataPredicateSchema } from '../src/schemas/common.js';
+import { matchesPredicate } from '../src/utils/metadataFilter.js';
+
+const metadata = {
+  project: 'archivenet',
+  importance: 7,
+  tags: ['deploy', 'backend'],
+  content: 'Deployed the API to staging',
+  timestamp: '2025-06-15T10:30:00Z',
+  pinned: false,
+  reviewer: null,
+};
+
+const matches = (predicate: MetadataPredicate) => matchesPredicate(metadata, predicate);
+
+describe('Metadata filter', () => {
+  it('should match eq by strict equality', () => {
+    expect(matches({ op: 'eq', key: 'project', value: 'archivenet' })).toBe(true);
+    expect(matches({ op: 'eq', key: 'importance', value: 7 })).toBe(true);
+    expect(matches({ op: 'eq', key: 'pinned', value: false })).toBe(true);
+    expect(matches({ op: 'eq', key: 'importance', value: '7' })).toBe(false);
+    expect(matches({ op: 'eq', key: 'missing', value: 'x' })).toBe(false);
+  });
+
+  it('should match in against any listed value', () => {
+    expect(matches({ op: 'in', key: 'project', values: ['other', 'archivenet'] })).toBe(true);
+    expect(matches({ op: 'in', key: 'importance', values: [1, 2, 3] })).toBe(false);
+  });
+
+  it('should match numeric ranges with inclusive and exclusive bounds', () => {
+    expect(matches({ op: 'range', key: 'importance', gte: 7, lte: 7 })).toBe(true);
+    expect(matches({ op: 'range', key: 'importance', gt: 7 })).toBe(false);
+    expect(matches({ op: 'range', key: 'importance', gt: 5, lt: 8 })).toBe(true);
+  });
+
+  it('should match timestamp ranges by date', () => {
+    expect(matches({ op: 'range', key: 'timestamp', gte: '2025-06-01T00:00:00Z', lt: '2025-07-01T00:00:00Z' })).toBe(true);
+    expect(matches({ op: 'range', key: 'timestamp', gt: '2025-06-15T10:30:00Z' })).toBe(false);
+  });
+
+  it('should fail ranges on missing or mistyped values', () => {
+    expect(matches({ op: 'range', key: 'missing', gte: 0 })).toBe(false);
+    expect(matches({ op: 'range', key: 'project', gte: 0 })).toBe(false);
+    expect(matches({ op: 'range', key: 'importance', gte: '2025-01-01T00:00:00Z' })).toBe(false);
+  });
+
+  it('should treat null and missing keys as not existing', () => {
+    expect(matches({ op: 'exists', key: 'pinned' })).toBe(true);
+    expect(matches({ op: 'exists', key: 'reviewer' })).toBe(false);
+    expect(matches({ op: 'exists', key: 'missing' })).toBe(false);
+  });
+
+  it('should match contains on array elements and substrings', () => {
+    expect(matches({ op: 'contains', key: 'tags', value: 'deploy' })).toBe(true);
+    expect(matches({ op: 'contains', key: 'tags', value: 'dep' })).toBe(false);
+    expect(matches({ op: 'contains', key: 'content', value: 'staging' })).toBe(true);
+    expect(matches({ op: 'contains', key: 'importance', value: 7 })).toBe(false);
+  });
+
+  it('should combine predicates with and, or and not', () => {
+    const isProject = { op: 'eq', key: 'project', value: 'archivenet' } as const;
+    const isOther = { op: 'eq', key: 'project', value: 'other' } as const;
+
+    expect(matches({ op: 'and', clauses: [isProject, { op: 'contains', key: 'tags', value: 'backend' }] })).toBe(true);
+    expect(matches({ op: 'and', clauses: [isProject, isOther] })).toBe(false);
+    expect(matches({ op: 'or', clauses: [isOther, isProject] })).toBe(true);
+    expect(matches({ op: 'or', clauses: [isOther] })).toBe(false);
+    expect(matches({ op: 'not', clause: isOther })).toBe(true);
+    expect(matches({ op: 'not', clause: { op: 'eq', key: 'missing', value: 1 } })).toBe(true);
+    expect(matches({ op: 'not', clause: { op: 'or', clauses: [isOther, isProject] } })).toBe(false);
+  });
+
+  it('should reject range predicates without bounds', () => {
+    expect(metadataPredicateSchema.safeParse({ op: 'range', key: 'importance' }).success).toBe(false);
+    expect(metadataPredicateSchema.safeParse({ op: 'range', key: 'importance', gte: 3 }).success).toBe(true);
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Payment } from '../src/database/models/payments.js';
+import type { PaymentVerificationResult } from '../src/services/PaymentService.js';
+import { type PaymentStore, createPaymentLedger } from '../src/utils/paymentLedger.js';
+
+const WALLET = '0x2222222222222222222222222222222222222222';
+const TX_HASH = '0xAbC123';
+
+// In-memory stand-in for the payments table and its unique (chain_id, tx_hash) index
+class MemoryPaymentStore implements PaymentStore {
+  payments = new Map<string, Payment>();
+  private nextId = 1;
+
+  private key(chainId: number, txHash: string) {
+    return `${chainId}:${txHash}`;
+  }
+
+  async claim(payment: Parameters<PaymentStore['claim']>[0], staleBefore: Date) {
+    const key = this.key(payment.chainId, payment.txHash);
+    const existing = this.payments.get(key);
+    const reclaimable = !existing
+      || existing.status === 'rejected'
+      || (existing.status === 'pending' && existing.updatedAt < staleBefore);
+    if (!reclaimable) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const claimed: Payment = {
+      id: existing?.id ?? `payment_${this.nextId++}`,
+      ...payment,
+      status: 'pending',
+      currency: null,
+      amount: null,
+      fromAddress: null,
+      error: null,
+      confirmedAt: null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.payments.set(key, claimed);
+    return claimed;
+  }
+
+  async find(chainId: number, txHash: string) {
+    return this.payments.get(this.key(chainId, txHash));
+  }
+
+  private byId(id: string) {
+    return [...this.payments.values()].find((payment) => payment.id === id);
+  }
+
+  async confirm(id: string, claimedAt: Date, details: Pick<Payment, 'currency' | 'amount' | 'fromAddress'>) {
+    const payment = this.byId(id);
+    if (payment?.status !== 'pending' || payment.updatedAt.getTime() !== claimedAt.getTime()) {
+      return undefined;
+    }
+    Object.assign(payment, details, { status: 'confirmed', confirmedAt: new Date() });
+    return payment;
+  }
+
+  async reject(id: string, error: string) {
+    const payment = this.byId(id);
+    if (payment) {
+      Object.assign(payment, { status: 'rejected', error });
+    }
+  }
+}
+
+describe('Payment ledger', () => {
+  let store: MemoryPaymentStore;
+  let chainId: number;
+  let verification: PaymentVerificationResult;
+  let applied: number;
+  let now: number;
+
+  const redeemPayment = createPaymentLedger({
+    store: {
+      claim: (...args) => store.claim(...args),
+      find: (...args) => store.find(...args),
+      confirm: (...args) => store.confirm(...args),
+      reject: (...args) => store.reject(...args),
+    },
+    payments: () => ({
+      chainId,
+      verifyPayment: async ({ txHash }) =>
+        verification.verified
+          ? { verified: true, payment: { ...verification.payment, txHash, chainId } }
+          : verification,
+    }),
+    now: () => now,
+  });
+
+  const redeem = (txHash = TX_HASH, apply = async () => 'activated') =>
+    redeemPayment({ userId: 'user_1', txHash, planId: 'basic', walletAddress: WALLET }, async () => {
+      applied++;
+      return await apply();
+    });
+
+  beforeEach(() => {
+    store = new MemoryPaymentStore();
+    chainId = 1;
+    applied = 0;
+    now = Date.now();
+    verification = {
+      verified: true,
+      payment: {
+        txHash: TX_HASH,
+        chainId: 1,
+        from: WALLET,
+        to: '0x1111111111111111111111111111111111111111',
+        currency: 'ETH',
+        amount: '2000000000000000',
+        planId: 'basic',
+      },
+    };
+  });
+
+  it('should confirm a verified payment and activate the plan once', async () => {
+    const redemption = await redeem();
+
+    expect(redemption.ok).toBe(true);
+    expect(redemption.ok && redemption.result).toBe('activated');
+    expect(redemption.ok && redemption.payment.status).toBe('confirmed');
+    expect(applied).toBe(1);
+  });
+
+  it('should reject a reused transaction hash on the same chain', async () => {
+    await redeem();
+
+    expect(await redeem()).toEqual({
+      ok: false,
+      status: 409,
+      error: 'Transaction has already been used for a payment',
+    });
+    // Hashes are compared case-insensitively
+    expect((await redeem(TX_HASH.toLowerCase())).ok).toBe(false);
+    expect(applied).toBe(1);
+  });
+
+  it('should reject a hash that is still being redeemed', async () => {
+    await store.claim({ chainId: 1, txHash: TX_HASH.toLowerCase(), clerkUserId: 'user_2', plan: 'basic' }, new Date(0));
+
+    expect(await redeem()).toEqual({
+      ok: false,
+      status: 409,
+      error: 'Transaction is already being redeemed',
+    });
+    expect(applied).toBe(0);
+  });
+
+  it('should treat the same hash on another chain as another payment', async () => {
+    await redeem();
+    chainId = 137;
+
+    expect((await redeem()).ok).toBe(true);
+    expect(applied).toBe(2);
+  });
+
+  it('should let a rejected payment be retried', async () => {
+    const verified = verification;
+    verification = { verified: false, reason: 'Transaction not found or not yet mined on chain 1' };
+    expect(await redeem()).toEqual({
+      ok: false,
+      status: 400,
+      error: 'Transaction not found or not yet mined on chain 1',
+    });
+
+    verification = verified;
+    expect((await redeem()).ok).toBe(true);
+  });
+
+  it('should confirm the payment before activating the plan', async () => {
+    const redemption = await redeem(TX_HASH, async () => {
+      expect((await store.find(1, TX_HASH.toLowerCase()))?.status).toBe('confirmed');
+      return 'activated';
+    });
+
+    expect(redemption.ok).toBe(true);
+  });
+
+  it('should not activate the plan again when the hash is replayed after a crash', async () => {
+    // The process dies while activating the plan, after the payment was confirmed
+    void redeem(TX_HASH, () => new Promise<string>(() => {}));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(applied).toBe(1);
+
+    now += 60 * 60 * 1000;
+    expect(await redeem()).toEqual({
+      ok: false,
+      status: 409,
+      error: 'Transaction has already been used for a payment',
+    });
+    expect(applied).toBe(1);
+  });
+
+  it('should not activate the plan for a claim taken over after it went stale', async () => {
+    const verified = verification;
+    let verify!: () => void;
+    const verifying = new Promise<void>((resolve) => { verify = resolve; });
+    const slowRedeem = createPaymentLedger({
+      store,
+      payments: () => ({
+        chainId: 1,
+        verifyPayment: async () => {
+          await verifying;
+          return verified;
+        },
+      }),
+      now: () => now,
+    });
+
+    const first = slowRedeem({ userId: 'user_1', txHash: TX_HASH, planId: 'basic', walletAddress: WALLET }, async () => {
+      applied++;
+      return 'activated';
+    });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    now += 60 * 60 * 1000;
+    expect((await redeem()).ok).toBe(true);
+
+    verify();
+    expect(await first).toEqual({ ok: false, status: 409, error: 'Transaction is already being redeemed' });
+    expect(applied).toBe(1);
+  });
+
+  it('should roll the payment back when activating the plan fails', async () => {
+    await expect(redeem(TX_HASH, async () => {
+      throw new Error('database unavailable');
+    })).rejects.toThrow('database unavailable');
+    expect((await store.find(1, TX_HASH.toLowerCase()))?.status).toBe('rejected');
+
+    expect((await redeem()).ok).toBe(true);
+    expect(applied).toBe(2);
+  });
+});
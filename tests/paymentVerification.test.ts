@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PaymentService } from '../src/services/PaymentService.js';
+import type {
+  EthTransaction,
+  EthTransactionReceipt,
+  EtherscanClient,
+} from '../src/utils/etherScan.js';
+
+const TREASURY = '0x1111111111111111111111111111111111111111';
+const WALLET = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const TX_HASH = '0xabc';
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const toTopic = (address: string) => `0x${address.slice(2).padStart(64, '0')}`;
+const toHex = (value: bigint) => `0x${value.toString(16)}`;
+
+// Local stand-in for Etherscan, serving one transaction
+class StubEtherscanClient implements EtherscanClient {
+  constructor(
+    public chainId: number,
+    public tx: EthTransaction | null,
+    public receipt: EthTransactionReceipt | null,
+  ) {}
+
+  async getTransaction() {
+    return this.tx;
+  }
+
+  async getTransactionReceipt() {
+    return this.receipt;
+  }
+}
+
+describe('Payment verification', () => {
+  let client: StubEtherscanClient;
+  let payments: PaymentService;
+
+  // basic: 0.002 ETH or 5 USD
+  const ethPayment = (overrides: Partial<EthTransaction> = {}): EthTransaction => ({
+    hash: TX_HASH,
+    from: WALLET,
+    to: TREASURY,
+    value: toHex(2000000000000000n),
+    input: '0x',
+    chainId: '0x1',
+    blockNumber: '0x10',
+    ...overrides,
+  });
+
+  const receipt = (overrides: Partial<EthTransactionReceipt> = {}): EthTransactionReceipt => ({
+    status: '0x1',
+    from: WALLET,
+    to: TREASURY,
+    logs: [],
+    blockNumber: '0x10',
+    ...overrides,
+  });
+
+  const tokenTransfer = (to: string, amount: bigint) => ({
+    address: TOKEN,
+    topics: [TRANSFER_TOPIC, toTopic(WALLET), toTopic(to)],
+    data: toHex(amount),
+  });
+
+  const verify = () =>
+    payments.verifyPayment({ txHash: TX_HASH, planId: 'basic', walletAddress: WALLET });
+
+  beforeEach(() => {
+    client = new StubEtherscanClient(1, ethPayment(), receipt());
+    payments = new PaymentService(client, {
+      treasuryAddress: TREASURY,
+      chainId: 1,
+      tokenAddress: TOKEN,
+      tokenDecimals: 6,
+    });
+  });
+
+  it('should accept an ETH payment of the plan price to the treasury', async () => {
+    const result = await verify();
+    expect(result).toEqual({
+      verified: true,
+      payment: {
+        txHash: TX_HASH,
+        chainId: 1,
+        from: WALLET,
+        to: TREASURY,
+        currency: 'ETH',
+        amount: '2000000000000000',
+        planId: 'basic',
+      },
+    });
+  });
+
+  it('should reject payments to another address', async () => {
+    client.tx = ethPayment({ to: '0x4444444444444444444444444444444444444444' });
+    expect(await verify()).toEqual({ verified: false, reason: 'Transaction is not a payment to the treasury' });
+  });
+
+  it('should reject payments below the plan price', async () => {
+    client.tx = ethPayment({ value: toHex(1999999999999999n) });
+    const result = await verify();
+    expect(result.verified).toBe(false);
+  });
+
+  it('should reject payments sent from another wallet', async () => {
+    client.tx = ethPayment({ from: '0x5555555555555555555555555555555555555555' });
+    expect(await verify()).toEqual({ verified: false, reason: "Transaction was not sent from the user's wallet" });
+  });
+
+  it('should reject failed and unknown transactions', async () => {
+    client.receipt = receipt({ status: '0x0' });
+    expect(await verify()).toEqual({ verified: false, reason: 'Transaction failed' });
+
+    client.receipt = null;
+    expect((await verify()).verified).toBe(false);
+  });
+
+  it('should reject transactions on another chain', async () => {
+    client.tx = ethPayment({ chainId: '0x89' });
+    expect(await verify()).toEqual({ verified: false, reason: 'Transaction is on chain 137, expected 1' });
+
+    client.tx = ethPayment();
+    client.chainId = 137;
+    expect((await verify()).verified).toBe(false);
+  });
+
+  it('should accept an ERC-20 transfer of the plan price to the treasury', async () => {
+    client.tx = ethPayment({ to: TOKEN, value: '0x0' });
+    client.receipt = receipt({ to: TOKEN, logs: [tokenTransfer(TREASURY, 5000000n)] });
+
+    const result = await verify();
+    expect(result.verified).toBe(true);
+    expect(result.verified && result.payment.currency).toBe('ERC20');
+    expect(result.verified && result.payment.amount).toBe('5000000');
+  });
+
+  it('should reject ERC-20 transfers to another address or below the price', async () => {
+    client.tx = ethPayment({ to: TOKEN, value: '0x0' });
+
+    client.receipt = receipt({ to: TOKEN, logs: [tokenTransfer(WALLET, 5000000n)] });
+    expect(await verify()).toEqual({ verified: false, reason: 'Transaction does not transfer tokens to the treasury' });
+
+    client.receipt = receipt({ to: TOKEN, logs: [tokenTransfer(TREASURY, 4999999n)] });
+    expect((await verify()).verified).toBe(false);
+  });
+});
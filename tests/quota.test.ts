@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createQuotaEnforcer, refundQuota } from '../src/utils/quota.js';
+
+const PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface Subscription {
+  plan: 'basic' | 'pro';
+  isActive: boolean;
+  quotaLimit: number;
+  quotaUsed: number;
+  renewsAt: Date;
+}
+
+// Runs a local app with the quota enforcer on in-memory subscriptions and a fake clock
+describe('Quota', () => {
+  let server: Server;
+  let baseUrl: string;
+  let now: number;
+  let subscriptions: Record<string, Subscription>;
+  let released: Promise<void>[];
+
+  const client = axios.create({ validateStatus: () => true });
+
+  const subscribe = (userId: string, overrides: Partial<Subscription> = {}) => {
+    subscriptions[userId] = {
+      plan: 'basic',
+      isActive: true,
+      quotaLimit: 10,
+      quotaUsed: 0,
+      renewsAt: new Date(now + PERIOD_MS),
+      ...overrides,
+    };
+  };
+
+  beforeEach(async () => {
+    now = Date.parse('2025-06-06T12:00:00Z');
+    subscriptions = {};
+    released = [];
+
+    const enforceQuota = createQuotaEnforcer({
+      // Same conditions as the atomic update in consumeQuota
+      consume: async (userId, amount) => {
+        const subscription = subscriptions[userId];
+        const expired = subscription ? subscription.renewsAt.getTime() <= now : false;
+        const used = expired ? amount : (subscription?.quotaUsed ?? 0) + amount;
+        if (!subscription?.isActive || used > subscription.quotaLimit) {
+          return undefined;
+        }
+        while (subscription.renewsAt.getTime() <= now) {
+          subscription.renewsAt = new Date(subscription.renewsAt.getTime() + PERIOD_MS);
+        }
+        subscription.quotaUsed = used;
+        return { ...subscription };
+      },
+      release: (userId, amount) => {
+        const release = (async () => {
+          const subscription = subscriptions[userId];
+          subscription.quotaUsed = Math.max(subscription.quotaUsed - amount, 0);
+        })();
+        released.push(release);
+        return release;
+      },
+      getSubscription: async (userId) => subscriptions[userId],
+      now: () => now,
+    });
+
+    const app = express();
+    app.use(express.json());
+    // Stands in for verifyContractHashMiddleware
+    app.use((req, _res, next) => {
+      const userId = req.header('x-test-user');
+      if (userId) {
+        req.contract = { contractId: `contract_${userId}`, userId, createdAt: 0 };
+      }
+      next();
+    });
+    app.post('/memories', enforceQuota(), (_req, res) => { res.json({ ok: true }) });
+    app.post('/memories/batch', enforceQuota((req) => req.body.count), (req, res) => {
+      refundQuota(res, req.body.failed ?? 0);
+      res.json({ ok: true });
+    });
+    app.post('/memories/invalid', enforceQuota(), (_req, res) => { res.status(400).json({ ok: false }) });
+    app.post('/memories/broken', enforceQuota(), (_req, res) => { res.status(500).json({ ok: false }) });
+    app.post('/memories/async', enforceQuota(async () => 3), (_req, res) => { res.json({ ok: true }) });
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  // Refunds run after the response is sent
+  const post = async (path: string, userId?: string, body: object = {}) => {
+    const res = await client.post(`${baseUrl}${path}`, body, {
+      headers: userId ? { 'x-test-user': userId } : {},
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await Promise.all(released);
+    return res;
+  };
+
+  it('should charge one unit per request and report the remaining quota', async () => {
+    subscribe('user_1');
+
+    const res = await post('/memories', 'user_1');
+
+    expect(res.status).toBe(200);
+    expect(subscriptions.user_1.quotaUsed).toBe(1);
+    expect(res.headers['x-quota-limit']).toBe('10');
+    expect(res.headers['x-quota-remaining']).toBe('9');
+    expect(res.headers['x-quota-reset']).toBe(String(Math.floor(subscriptions.user_1.renewsAt.getTime() / 1000)));
+  });
+
+  it('should charge the cost computed from the request', async () => {
+    subscribe('user_1');
+
+    expect((await post('/memories/batch', 'user_1', { count: 4 })).status).toBe(200);
+    expect((await post('/memories/async', 'user_1')).status).toBe(200);
+    expect(subscriptions.user_1.quotaUsed).toBe(7);
+  });
+
+  it('should refund the whole charge when the request fails', async () => {
+    subscribe('user_1', { quotaUsed: 2 });
+
+    expect((await post('/memories/invalid', 'user_1')).status).toBe(400);
+    expect((await post('/memories/broken', 'user_1')).status).toBe(500);
+    expect(subscriptions.user_1.quotaUsed).toBe(2);
+  });
+
+  it('should refund the units a handler gives back, at most the charge', async () => {
+    subscribe('user_1');
+
+    await post('/memories/batch', 'user_1', { count: 5, failed: 2 });
+    expect(subscriptions.user_1.quotaUsed).toBe(3);
+
+    await post('/memories/batch', 'user_1', { count: 2, failed: 9 });
+    expect(subscriptions.user_1.quotaUsed).toBe(3);
+  });
+
+  it('should reject with 429 once the quota is used up', async () => {
+    subscribe('user_1', { quotaUsed: 8 });
+
+    const res = await post('/memories/batch', 'user_1', { count: 3 });
+
+    expect(res.status).toBe(429);
+    expect(res.headers['x-quota-remaining']).toBe('2');
+    expect(Number(res.headers['retry-after'])).toBe(30 * 24 * 60 * 60);
+    expect(subscriptions.user_1.quotaUsed).toBe(8);
+
+    expect((await post('/memories/batch', 'user_1', { count: 2 })).status).toBe(200);
+    expect((await post('/memories', 'user_1')).status).toBe(429);
+  });
+
+  it('should reset the quota once renewsAt passes', async () => {
+    subscribe('user_1', { quotaUsed: 10 });
+    const renewsAt = subscriptions.user_1.renewsAt.getTime();
+
+    expect((await post('/memories', 'user_1')).status).toBe(429);
+
+    now = renewsAt;
+    const res = await post('/memories/batch', 'user_1', { count: 4 });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['x-quota-remaining']).toBe('6');
+    expect(subscriptions.user_1.quotaUsed).toBe(4);
+    expect(subscriptions.user_1.renewsAt.getTime()).toBe(renewsAt + PERIOD_MS);
+  });
+
+  it('should report the full quota as remaining when the charge alone exceeds a reset quota', async () => {
+    subscribe('user_1', { quotaUsed: 10 });
+    now = subscriptions.user_1.renewsAt.getTime();
+
+    const res = await post('/memories/batch', 'user_1', { count: 11 });
+
+    expect(res.status).toBe(429);
+    expect(res.headers['x-quota-remaining']).toBe('10');
+  });
+
+  it('should reject with 403 without an active subscription', async () => {
+    subscribe('user_1', { isActive: false });
+
+    expect((await post('/memories', 'user_1')).status).toBe(403);
+    expect((await post('/memories', 'user_2')).status).toBe(403);
+  });
+
+  it('should reject with 401 without an instance key', async () => {
+    expect((await post('/memories')).status).toBe(401);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { PlanId } from '../src/config/plans.js';
+import {
+  MemoryRateLimitStore,
+  type RateLimitStore,
+  createRateLimiter,
+} from '../src/utils/rateLimiter.js';
+
+// Runs a local app with the rate limiter on an in-memory store and a fake clock
+describe('Rate limiter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let now: number;
+  let plans: Record<string, PlanId>;
+  let store: RateLimitStore;
+
+  const client = axios.create({ validateStatus: () => true });
+
+  beforeEach(async () => {
+    now = Date.parse('2025-06-06T12:00:00Z');
+    plans = {};
+    store = new MemoryRateLimitStore();
+
+    const rateLimit = createRateLimiter({
+      store: () => store,
+      getPlan: async (userId) => plans[userId] ?? null,
+      now: () => now,
+    });
+
+    const app = express();
+    // Stands in for verifyContractHashMiddleware
+    app.use((req, _res, next) => {
+      const userId = req.header('x-test-user');
+      if (userId) {
+        req.contract = { contractId: `contract_${userId}`, userId, createdAt: 0 };
+      }
+      next();
+    });
+    app.get('/memories', rateLimit('memories'), (_req, res) => { res.json({ ok: true }) });
+    app.get('/etherscan', rateLimit('etherscan'), (_req, res) => { res.json({ ok: true }) });
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  const send = async (path: string, times: number, userId?: string) => {
+    const statuses: number[] = [];
+    for (let i = 0; i < times; i++) {
+      const res = await client.get(`${baseUrl}${path}`, {
+        headers: userId ? { 'x-test-user': userId } : {},
+      });
+      statuses.push(res.status);
+    }
+    return statuses;
+  };
+
+  it('should allow a burst and then return 429 with Retry-After', async () => {
+    // etherscan: 10 requests per minute, burst of 5
+    const statuses = await send('/etherscan', 5);
+    expect(statuses.every((status) => status === 200)).toBe(true);
+
+    const res = await client.get(`${baseUrl}/etherscan`);
+    expect(res.status).toBe(429);
+    expect(res.headers['retry-after']).toBe('6');
+    expect(res.headers['x-ratelimit-limit']).toBe('10');
+    expect(res.headers['x-ratelimit-remaining']).toBe('0');
+    expect(res.data.message).toBe('Too many requests');
+  });
+
+  it('should refill tokens over time', async () => {
+    await send('/etherscan', 5);
+    expect((await client.get(`${baseUrl}/etherscan`)).status).toBe(429);
+
+    now += 6000; // One token at 10 per minute
+    expect(await send('/etherscan', 2)).toEqual([200, 429]);
+  });
+
+  it('should keep separate buckets per caller and per route group', async () => {
+    await send('/etherscan', 5);
+    expect((await client.get(`${baseUrl}/etherscan`)).status).toBe(429);
+
+    // Same IP, other group
+    expect((await client.get(`${baseUrl}/memories`)).status).toBe(200);
+    // Identified by instance key instead of IP
+    expect(await send('/etherscan', 1, 'user_a')).toEqual([200]);
+  });
+
+  it('should apply plan limits to memory routes', async () => {
+    plans.user_pro = 'pro';
+
+    // basic (also without a subscription): burst of 20, pro: burst of 60
+    const basic = await send('/memories', 21, 'user_basic');
+    const pro = await send('/memories', 21, 'user_pro');
+
+    expect(basic.filter((status) => status === 200)).toHaveLength(20);
+    expect(basic[20]).toBe(429);
+    expect(pro.every((status) => status === 200)).toBe(true);
+  });
+
+  it('should fall back to process memory when the store fails', async () => {
+    store = { take: async () => { throw new Error('Redis unavailable') } };
+
+    const statuses = await send('/etherscan', 6);
+    expect(statuses.slice(0, 5).every((status) => status === 200)).toBe(true);
+    expect(statuses[5]).toBe(429);
+  });
+});